@@ -1,4 +1,4 @@
-import React, { useState, useMemo, useEffect, useCallback } from 'react';
+import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
 import {
     Package,
     Layers,
@@ -18,16 +18,34 @@ import {
     ChevronDown,
     ArrowRight,
     Monitor,
-    Loader2
+    Loader2,
+    Type,
+    X
 } from 'lucide-react';
 import { FileUploader } from '@/features/upload/components/FileUploader';
-import { parseGerberZip } from '@/features/parser/utils/gerberParser';
+import { parseGerberZip, parseLayerFiles } from '@/features/parser/utils/gerberParser';
+import { formatLabel, sameFormat } from '@/features/parser/utils/gerberFormat';
 import { parseIPC2581 } from '@/features/parser/utils/ipcParser';
 import { PCBPreview } from '@/features/parser/components/PCBPreview';
-import { XCSGenerator } from '@/features/parser/utils/xcsGenerator';
+import { XCSGenerator, XCSLayer } from '@/features/parser/utils/xcsGenerator';
 import { useProcessor } from '@/features/parser/hooks/useProcessor';
-import { PCBLayer } from '~types/pcb';
+import { KeepOut, invertPadding } from '@/features/parser/utils/layerProcessing';
+import { AlignmentSettings, CutoutSettings, FeatureClass, FeatureClassSettings, GerberFormat, HybridClearSettings, IsolationSettings, MaskOpeningSettings, MirrorSettings, NetSplit, PCBLayer, PCBProject, ProcessSettings, SilkscreenSettings } from '~types/pcb';
 import { GerberToPath } from '@/features/parser/utils/vectorUtils';
+import { drillToPath } from '@/features/parser/utils/excellonParser';
+import { rectPolygon } from '@/features/parser/utils/geometry';
+import { DEFAULT_ISOLATION, DEFAULT_HYBRID, isolationWidth } from '@/features/parser/utils/isolation';
+import { DEFAULT_MIRROR, resolveMirrorAxis } from '@/features/parser/utils/mirror';
+import { exportsCopperImage, netSplitFor, splitNets } from '@/features/parser/utils/nets';
+import { colorAllocator } from '@/features/parser/utils/exportColors';
+import { FEATURE_CLASSES, FEATURE_CLASS_LABELS, defaultFeatureClasses, featureClassGroups } from '@/features/parser/utils/featureClasses';
+import { DEFAULT_PROCESSING, MIN_LINE_SPACING, processingFields, processingFor } from '@/features/parser/utils/laserProcess';
+import { DEFAULT_MASK_OPENINGS, isMaskLayer } from '@/features/parser/utils/maskOpenings';
+import { DEFAULT_SILKSCREEN, isSilkLayer } from '@/features/parser/utils/silkscreen';
+import { AlignmentPanel } from '@/features/alignment/components/AlignmentPanel';
+import { DEFAULT_ALIGNMENT, alignmentXCSLayers, buildAlignment } from '@/features/alignment/utils/alignment';
+import { CutoutPanel } from '@/features/cutout/components/CutoutPanel';
+import { DEFAULT_CUTOUT, buildCutout, cutoutXCSLayer } from '@/features/cutout/utils/cutout';
 
 const DEVICES = [
     { id: 'f2_ultra_uv', name: 'F2 Ultra UV' },
@@ -36,23 +54,60 @@ const DEVICES = [
 
 const VERSION = "1.4.18";
 
+/**
+ * Stack order: copper (by position in the stack), mask, silk, everything else
+ */
+const compareLayers = (a: PCBLayer, b: PCBLayer): number => {
+    const priority = (type: string) => {
+        const t = type.toLowerCase();
+        if (t.includes('cu')) return 1;
+        if (t.includes('mask')) return 2;
+        if (t.includes('silk')) return 3;
+        return 4;
+    };
+    const pA = priority(a.type);
+    const pB = priority(b.type);
+    if (pA !== pB) return pA - pB;
+    if (a.copperIndex !== undefined && b.copperIndex !== undefined) return a.copperIndex - b.copperIndex;
+    return 0;
+};
+
+// Scale an "#rrggbb" colour towards black
+const shadeColor = (hex: string, factor: number): string => {
+    const n = parseInt(hex.replace('#', ''), 16);
+    const channel = (shift: number) => Math.round(((n >> shift) & 0xff) * factor);
+    return '#' + ((channel(16) << 16) | (channel(8) << 8) | channel(0)).toString(16).padStart(6, '0');
+};
+
+const isCopperLayer = (layer: PCBLayer): boolean => {
+    const t = layer.type.toLowerCase();
+    return t.includes('cu') || t.includes('copper');
+};
+
 const App: React.FC = () => {
     const [layers, setLayers] = useState<PCBLayer[]>([]);
+    const [project, setProject] = useState<PCBProject | null>(null);
     const [selectedLayerId, setSelectedLayerId] = useState<string | null>(null);
     const [viewMode, setViewMode] = useState<'front' | 'back' | 'xray'>('front');
     const [activeDevice, setActiveDevice] = useState(DEVICES[0].id);
     const [expandedGroups, setExpandedGroups] = useState<Record<string, boolean>>({
         front: true,
         back: true,
-        others: true
+        others: true,
+        alignment: false,
+        cutout: false
     });
 
-    const { processLayers, processedLayers, isProcessing: isGeometryProcessing } = useProcessor();
+    const { processLayers, plotGerber, processedLayers, isProcessing: isGeometryProcessing, progress, staleLayerIds, cancel: cancelProcessing } = useProcessor();
     const [isParsing, setIsParsing] = useState(false);
+    // Shared by every mirrored layer, so front and back stay registered to each other
+    const [mirrorSettings, setMirrorSettings] = useState<MirrorSettings>(DEFAULT_MIRROR);
+    const [alignmentSettings, setAlignmentSettings] = useState<AlignmentSettings>(DEFAULT_ALIGNMENT);
+    const [cutoutSettings, setCutoutSettings] = useState<CutoutSettings>(DEFAULT_CUTOUT);
 
     const boardBounds = useMemo(() => {
         // 1. Try to find Edge.Cuts / Board layer
-        const boardLayer = layers.find(l => l.side === 'board');
+        const boardLayer = layers.find(l => l.side === 'board' && l.type !== 'Drill');
         if (boardLayer && boardLayer.bounds && boardLayer.bounds.width > 0) {
             return boardLayer.bounds;
         }
@@ -72,47 +127,97 @@ const App: React.FC = () => {
                 }
             });
             if (hasAny) {
+                // The job file knows the real board size; centre it on the copper extents
+                if (project && project.width > 0 && project.height > 0) {
+                    const cx = (minX + maxX) / 2;
+                    const cy = (minY + maxY) / 2;
+                    return { x: cx - project.width / 2, y: cy - project.height / 2, width: project.width, height: project.height };
+                }
                 return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
             }
         }
 
         // 3. Fallback to all layers
         return GerberToPath.getBounds(layers);
+    }, [layers, project]);
+
+    const mirrorAxis = useMemo(() => resolveMirrorAxis(mirrorSettings, boardBounds), [mirrorSettings, boardBounds]);
+
+    const alignment = useMemo(() =>
+        alignmentSettings.enabled ? buildAlignment(alignmentSettings, boardBounds, mirrorAxis) : null,
+        [alignmentSettings, boardBounds, mirrorAxis]);
+
+    // Closed board outline, when the outline layer gave one
+    const boardShape = useMemo(() =>
+        project?.board?.contours.length ? project.board.contours : null,
+        [project]);
+
+    // Cut round the board shape, or its bounds when there is no closed outline
+    const cutout = useMemo(() => {
+        if (!cutoutSettings.enabled) return null;
+        const { x, y, width, height } = boardBounds;
+        return buildCutout(cutoutSettings, boardShape ?? [rectPolygon(x + width / 2, y + height / 2, width, height)]);
+    }, [cutoutSettings, boardBounds, boardShape]);
+
+    // Silkscreen kept off the pads is kept off its own side's mask openings, as far as they are expanded
+    const silkKeepOuts = useMemo(() => {
+        const keepOuts: Record<string, KeepOut> = {};
+        layers.forEach(l => {
+            if (!l.silkscreen?.clipToMask) return;
+            const mask = layers.find(m => m.side === l.side && isMaskLayer(m));
+            if (mask) keepOuts[l.id] = { content: mask.content, expansion: mask.maskOpenings?.expansion ?? 0 };
+        });
+        return keepOuts;
     }, [layers]);
 
-    useEffect(() => {
+    const runProcessing = useCallback(() => {
         if (layers.length > 0) {
-            processLayers(layers, boardBounds);
+            processLayers(layers, boardBounds, mirrorAxis, boardShape, silkKeepOuts);
         }
-    }, [layers, boardBounds, processLayers]);
+    }, [layers, boardBounds, mirrorAxis, boardShape, silkKeepOuts, processLayers]);
+
+    useEffect(runProcessing, [runProcessing]);
+
+    // Cancelled or failed layers still show their source geometry, which must not be exported
+    const canExport = !isGeometryProcessing && staleLayerIds.length === 0;
 
     const selectedLayer = useMemo(() =>
         layers.find(l => l.id === selectedLayerId),
         [layers, selectedLayerId]);
+    const selectedIsolation = selectedLayer?.isolation ?? DEFAULT_ISOLATION;
+    const selectedHybrid = selectedLayer?.hybrid ?? DEFAULT_HYBRID;
+    const selectedProcessing = selectedLayer ? processingFor(selectedLayer) : DEFAULT_PROCESSING;
+    // Counted by the geometry pipeline, so only known once the layer has been processed
+    const selectedSmallFeatures = processedLayers.find(p => p.id === selectedLayerId)?.smallFeatures ?? 0;
+    const selectedNetSplits = selectedLayer?.netSplits ?? [];
+    const selectedGerberFormat = selectedLayer?.gerber ? selectedLayer.gerber.override ?? selectedLayer.gerber.detected : null;
 
-    const handleFileAccepted = async (file: File) => {
+    const handleFileAccepted = async (files: File[]) => {
 
         setIsParsing(true);
         try {
             let detectedLayers: PCBLayer[] = [];
-            if (file.name.endsWith('.zip')) {
-                detectedLayers = await parseGerberZip(file);
-            } else if (file.name.endsWith('.xml')) {
-                detectedLayers = await parseIPC2581(file);
+            let detectedProject: PCBProject | null = null;
+            const [file] = files;
+            if (files.length === 1 && file.name.endsWith('.zip')) {
+                detectedProject = await parseGerberZip(file, plotGerber);
+                detectedLayers = detectedProject.layers;
+            } else if (files.length === 1 && file.name.endsWith('.xml')) {
+                detectedProject = await parseIPC2581(file);
+                detectedLayers = detectedProject.layers;
+            } else if (files.length > 0) {
+                // Loose Gerber / drill / SVG layer files
+                detectedProject = await parseLayerFiles(files, plotGerber);
+                detectedLayers = detectedProject.layers;
             }
 
-            const sorted = detectedLayers.sort((a, b) => {
-                const priority = (type: string) => {
-                    const t = type.toLowerCase();
-                    if (t.includes('cu')) return 1;
-                    if (t.includes('mask')) return 2;
-                    if (t.includes('silk')) return 3;
-                    return 4;
-                };
-                return priority(a.type) - priority(b.type);
-            });
+            const sorted = detectedLayers.sort(compareLayers);
 
+            setProject(detectedProject);
             setLayers(sorted);
+            setMirrorSettings(DEFAULT_MIRROR);
+            setAlignmentSettings(DEFAULT_ALIGNMENT);
+            setCutoutSettings(DEFAULT_CUTOUT);
             (window as any).debugLayers = sorted;
 
             if (sorted.length > 0) {
@@ -129,7 +234,83 @@ const App: React.FC = () => {
         setLayers(prev => prev.map(l => l.id === id ? { ...l, ...updates } : l));
     };
 
-    const applyPreset = (type: 'COPPER' | 'MASK' | 'SILK' | 'FULL_CLEAR') => {
+    const updateDrill = (layer: PCBLayer, updates: Partial<Pick<PCBLayer, 'drillMode' | 'pilotDiameter'>>) => {
+        if (!layer.drill) return;
+        const next = { ...layer, ...updates };
+        updateLayer(layer.id, { ...updates, content: drillToPath(layer.drill, next.drillMode, next.pilotDiameter) });
+    };
+
+    // Latest re-plot asked for per layer, so an earlier one finishing late is dropped
+    const formatPlotsRef = useRef(new Map<string, number>());
+
+    // Re-plot a Gerber layer with an overridden coordinate format (null restores the detected one)
+    const updateGerberFormat = async (layer: PCBLayer, updates: Partial<GerberFormat> | null) => {
+        const gerber = layer.gerber;
+        if (!gerber) return;
+        const format = updates ? { ...(gerber.override ?? gerber.detected), ...updates } : gerber.detected;
+        const request = (formatPlotsRef.current.get(layer.id) ?? 0) + 1;
+        formatPlotsRef.current.set(layer.id, request);
+        try {
+            const plotted = await plotGerber(gerber.text, format, layer.side === 'board');
+            if (formatPlotsRef.current.get(layer.id) !== request) return;
+            if (plotted.board) {
+                const board = plotted.board;
+                setProject(prev => prev && { ...prev, board });
+            }
+            updateLayer(layer.id, {
+                content: plotted.content,
+                bounds: plotted.bounds,
+                outline: plotted.board?.contours.length ? plotted.board.path : undefined,
+                nets: plotted.nets,
+                components: plotted.components,
+                gerber: { ...gerber, override: sameFormat(format, gerber.detected) ? undefined : format }
+            });
+        } catch (err) {
+            console.error(`Failed to plot ${layer.name} as ${formatLabel(format)}:`, err);
+        }
+    };
+
+    const toggleNetSplit = (layer: PCBLayer, net: string) => {
+        const splits = layer.netSplits ?? [];
+        updateLayer(layer.id, {
+            netSplits: splits.some(s => s.net === net)
+                ? splits.filter(s => s.net !== net)
+                : [...splits, netSplitFor(layer, net)]
+        });
+    };
+
+    const updateNetSplit = (layer: PCBLayer, net: string, updates: Partial<NetSplit>) => {
+        updateLayer(layer.id, { netSplits: (layer.netSplits ?? []).map(s => s.net === net ? { ...s, ...updates } : s) });
+    };
+
+    const updateFeatureClass = (layer: PCBLayer, featureClass: FeatureClass, updates: Partial<FeatureClassSettings>) => {
+        if (!layer.featureClasses) return;
+        updateLayer(layer.id, {
+            featureClasses: { ...layer.featureClasses, [featureClass]: { ...layer.featureClasses[featureClass], ...updates } }
+        });
+    };
+
+    const updateIsolation = (layer: PCBLayer, updates: Partial<IsolationSettings>) => {
+        updateLayer(layer.id, { isolation: { ...(layer.isolation ?? DEFAULT_ISOLATION), ...updates } });
+    };
+
+    const updateHybrid = (layer: PCBLayer, updates: Partial<HybridClearSettings>) => {
+        updateLayer(layer.id, { hybrid: { ...(layer.hybrid ?? DEFAULT_HYBRID), ...updates } });
+    };
+
+    const updateProcessing = (layer: PCBLayer, updates: Partial<ProcessSettings>) => {
+        updateLayer(layer.id, { processing: { ...processingFor(layer), ...updates } });
+    };
+
+    const updateMaskOpenings = (layer: PCBLayer, updates: Partial<MaskOpeningSettings>) => {
+        updateLayer(layer.id, { maskOpenings: { ...(layer.maskOpenings ?? DEFAULT_MASK_OPENINGS), ...updates } });
+    };
+
+    const updateSilkscreen = (layer: PCBLayer, updates: Partial<SilkscreenSettings>) => {
+        updateLayer(layer.id, { silkscreen: { ...(layer.silkscreen ?? DEFAULT_SILKSCREEN), ...updates } });
+    };
+
+    const applyPreset = (type: 'COPPER' | 'MASK' | 'MASK_OPENINGS' | 'SILK' | 'FULL_CLEAR') => {
         setLayers(prev => prev.map(l => {
             const lowerType = l.type.toLowerCase();
             const isCopper = lowerType.includes('cu') || lowerType.includes('copper');
@@ -137,13 +318,18 @@ const App: React.FC = () => {
             const isSilk = lowerType.includes('silk');
 
             if (type === 'COPPER' && isCopper) {
-                return { ...l, inverted: true, power: 80, speed: 100, visible: true };
+                // Negative copper files already describe the areas to remove
+                return { ...l, inverted: l.polarity !== 'negative', power: 80, speed: 100, visible: true };
             }
             if (type === 'MASK' && isMask) {
                 return { ...l, inverted: false, power: 40, speed: 500, visible: true };
             }
+            // UV mask film: ablate the pad openings, with their own laser settings
+            if (type === 'MASK_OPENINGS' && isMask) {
+                return { ...l, inverted: false, maskOpenings: l.maskOpenings ?? DEFAULT_MASK_OPENINGS, visible: true };
+            }
             if (type === 'SILK' && isSilk) {
-                return { ...l, inverted: false, power: 20, speed: 1000, visible: true };
+                return { ...l, inverted: false, silkscreen: l.silkscreen ?? DEFAULT_SILKSCREEN, power: 20, speed: 1000, visible: true };
             }
             if (type === 'FULL_CLEAR' && isCopper) {
                 return { ...l, inverted: true, power: 100, speed: 50, visible: true };
@@ -153,18 +339,90 @@ const App: React.FC = () => {
     };
 
     const handleExportXCS = () => {
+        if (!canExport) return;
         const generator = new XCSGenerator({ activeDevice });
         const sourceLayers = processedLayers.length > 0 ? processedLayers : layers;
-        const xcsLayers = sourceLayers.map(l => ({
-            name: l.name,
-            paths: [l.content],
-            visible: l.visible,
-            color: l.color,
-            speed: l.speed,
-            power: l.power,
-            frequency: l.frequency,
-            passes: 1
-        }));
+        // The cut-out takes over from the Edge.Cuts layer, which would otherwise be cut as well
+        const exportedLayers = cutout ? sourceLayers.filter(l => l.side !== 'board' || l.drill) : sourceLayers;
+        const frequency = sourceLayers[0]?.frequency ?? 60;
+        const finishing: XCSLayer[] = [
+            ...(alignment ? alignmentXCSLayers(alignment, alignmentSettings, frequency) : []),
+            // Last, once everything on the board is done
+            ...(cutout ? [cutoutXCSLayer(cutout, cutoutSettings, frequency)] : [])
+        ];
+        // Split nets and feature classes draw colours from one source for the whole export, clear of every other display's
+        const nextColor = colorAllocator([
+            ...exportedLayers.flatMap(l => l.clearContent ? [l.color, shadeColor(l.color, 0.6)] : [l.color]),
+            ...finishing.map(l => l.color)
+        ]);
+        const xcsLayers: XCSLayer[] = exportedLayers.flatMap(l => {
+            const isolated = l.copperMode === 'isolation' || l.copperMode === 'hybrid';
+            // Processed layers no longer say whether they were inverted; the settings do
+            const settings = layers.find(s => s.id === l.id) ?? l;
+            const positive = exportsCopperImage(settings);
+            const { content, nets } = positive ? splitNets(l, nextColor) : { content: l.content, nets: [] };
+            const processing = processingFields(processingFor(settings));
+            if (settings.maskOpenings) {
+                const openings = settings.maskOpenings;
+                return [{
+                    name: `${l.name} (openings)`,
+                    paths: [l.content],
+                    visible: l.visible,
+                    color: l.color,
+                    frequency: l.frequency,
+                    ...processing,
+                    speed: openings.speed,
+                    power: openings.power,
+                    lpi: openings.lpi,
+                    passes: openings.passes,
+                    processingType: 'FILL_VECTOR_ENGRAVING'
+                }];
+            }
+            // Single-line silkscreen traces the stroke centres once instead of filling the artwork
+            if (settings.silkscreen?.mode === 'line' && l.silkLines) {
+                return [{
+                    name: l.name,
+                    paths: [l.silkLines],
+                    visible: l.visible,
+                    color: l.color,
+                    speed: l.speed,
+                    power: l.power,
+                    frequency: l.frequency,
+                    ...processing,
+                    processingType: 'VECTOR_ENGRAVING'
+                }];
+            }
+            const main: XCSLayer = {
+                name: l.name,
+                paths: [content],
+                groups: positive ? featureClassGroups(l, nextColor) : undefined,
+                visible: l.visible,
+                color: l.color,
+                speed: l.speed,
+                power: l.power,
+                frequency: l.frequency,
+                ...processing,
+                // Isolation outlines are only ever traced
+                processingType: isolated ? 'VECTOR_ENGRAVING' : processing.processingType
+            };
+            if (!l.clearContent) return [main, ...nets];
+
+            // Hybrid far-area fill gets its own display (and colour, as XCS layers are keyed by it)
+            const hybrid = l.hybrid ?? DEFAULT_HYBRID;
+            return [main, {
+                name: `${l.name} (clear)`,
+                paths: [l.clearContent],
+                visible: l.visible,
+                color: shadeColor(l.color, 0.6),
+                speed: hybrid.speed,
+                power: hybrid.power,
+                frequency: l.frequency,
+                lpi: hybrid.lpi,
+                passes: 1,
+                processingType: 'FILL_VECTOR_ENGRAVING'
+            }];
+        });
+        xcsLayers.push(...finishing);
         const content = generator.generate(xcsLayers);
 
         const blob = new Blob([content], { type: 'application/json' });
@@ -201,19 +459,7 @@ const App: React.FC = () => {
     );
 
     const groups = useMemo(() => {
-        const sorted = [...layers].sort((a, b) => {
-            const priority = (type: string) => {
-                const t = type.toLowerCase();
-                if (t.includes('cu')) return 1;
-                if (t.includes('mask')) return 2;
-                if (t.includes('silk')) return 3;
-                return 4;
-            };
-            const pA = priority(a.type);
-            const pB = priority(b.type);
-            if (pA !== pB) return pA - pB;
-            return a.name.localeCompare(b.name);
-        });
+        const sorted = [...layers].sort((a, b) => compareLayers(a, b) || a.name.localeCompare(b.name));
 
         return {
             front: sorted.filter(l => l.side === 'front'),
@@ -270,6 +516,17 @@ const App: React.FC = () => {
                         <span className="ml-2 px-1.5 py-0.5 rounded bg-white/10 text-[9px] font-mono text-brand-text-muted">v{VERSION}</span>
                     </div>
 
+                    {project && (
+                        <div className="flex flex-col leading-none">
+                            <span className="text-xs font-bold truncate max-w-[220px]">{project.name}</span>
+                            <span className="text-[9px] font-mono text-brand-text-muted mt-1">
+                                {project.revision ? `REV ${project.revision}` : 'NO REVISION'}
+                                {project.copperLayerCount ? ` · ${project.copperLayerCount}L` : ''}
+                                {project.boardThickness ? ` · ${project.boardThickness} mm` : ''}
+                            </span>
+                        </div>
+                    )}
+
                     <div className="flex items-center gap-2 bg-black/40 p-1 rounded-xl border border-brand-border max-w-[280px]">
                         {DEVICES.map(device => (
                             <button
@@ -286,9 +543,10 @@ const App: React.FC = () => {
                 <div className="flex items-center gap-4">
                     <div onClick={() => applyPreset('COPPER')} className="text-[10px] font-black cursor-pointer hover:text-brand-accent transition-colors">COPPER</div>
                     <div onClick={() => applyPreset('MASK')} className="text-[10px] font-black cursor-pointer hover:text-brand-accent transition-colors">MASK</div>
+                    <div onClick={() => applyPreset('MASK_OPENINGS')} className="text-[10px] font-black cursor-pointer hover:text-brand-accent transition-colors">OPENINGS</div>
                     <div onClick={() => applyPreset('SILK')} className="text-[10px] font-black cursor-pointer hover:text-brand-accent transition-colors">SILK</div>
                     <div className="w-[1px] h-4 bg-brand-border mx-2" />
-                    <button onClick={handleExportXCS} className="btn-premium flex items-center gap-2 py-1.5 px-6">
+                    <button onClick={handleExportXCS} disabled={!canExport} title={staleLayerIds.length > 0 ? 'Some layers are not processed' : undefined} className="btn-premium flex items-center gap-2 py-1.5 px-6 disabled:opacity-50 disabled:cursor-wait">
                         <Download size={16} />
                         EXPORT .XCS
                     </button>
@@ -358,10 +616,53 @@ const App: React.FC = () => {
                                 </div>
                             )}
                         </div>
+
+                        {/* Double-sided registration */}
+                        <div>
+                            <button
+                                onClick={() => toggleGroup('alignment')}
+                                className="w-full flex items-center justify-between mb-2 text-[10px] font-bold text-brand-text-muted uppercase tracking-wider hover:text-white transition-colors"
+                            >
+                                <div className="flex items-center gap-2">
+                                    {expandedGroups.alignment ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                    ALIGNMENT
+                                </div>
+                                {alignment && <span className="text-[9px] bg-white/5 px-1.5 py-0.5 rounded">{alignment.points.length}</span>}
+                            </button>
+                            {expandedGroups.alignment && (
+                                <AlignmentPanel
+                                    settings={alignmentSettings}
+                                    geometry={alignment}
+                                    drillLayers={layers.filter(l => l.drill)}
+                                    onChange={updates => setAlignmentSettings(prev => ({ ...prev, ...updates }))}
+                                />
+                            )}
+                        </div>
+
+                        {/* Release from the stock */}
+                        <div>
+                            <button
+                                onClick={() => toggleGroup('cutout')}
+                                className="w-full flex items-center justify-between mb-2 text-[10px] font-bold text-brand-text-muted uppercase tracking-wider hover:text-white transition-colors"
+                            >
+                                <div className="flex items-center gap-2">
+                                    {expandedGroups.cutout ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+                                    CUT-OUT
+                                </div>
+                                {cutout && <span className="text-[9px] bg-white/5 px-1.5 py-0.5 rounded">{cutout.tabs}</span>}
+                            </button>
+                            {expandedGroups.cutout && (
+                                <CutoutPanel
+                                    settings={cutoutSettings}
+                                    geometry={cutout}
+                                    onChange={updates => setCutoutSettings(prev => ({ ...prev, ...updates }))}
+                                />
+                            )}
+                        </div>
                     </div>
 
                     <div className="p-4 border-t border-brand-border bg-black/20">
-                        <button onClick={() => { setLayers([]); setSelectedLayerId(null); }} className="w-full py-2 flex items-center justify-center gap-2 text-xs font-bold text-brand-text-muted hover:text-red-400 transition-colors">
+                        <button onClick={() => { setLayers([]); setProject(null); setSelectedLayerId(null); }} className="w-full py-2 flex items-center justify-center gap-2 text-xs font-bold text-brand-text-muted hover:text-red-400 transition-colors">
                             <Trash2 size={14} />
                             Reset Workspace
                         </button>
@@ -376,19 +677,44 @@ const App: React.FC = () => {
                     </div>
 
                     {isGeometryProcessing && (
-                        <div className="absolute inset-0 z-40 bg-brand-bg/60 backdrop-blur-sm flex flex-col items-center justify-center">
-                            <div className="bg-black/60 p-6 rounded-2xl border border-white/10 flex flex-col items-center gap-4 shadow-2xl">
-                                <Loader2 className="animate-spin text-brand-accent" size={32} />
-                                <div className="text-center">
+                        <div className="absolute top-20 right-6 z-40 w-64 bg-black/60 backdrop-blur-sm p-4 rounded-2xl border border-white/10 shadow-2xl space-y-3">
+                            <div className="flex items-center gap-3">
+                                <Loader2 className="animate-spin text-brand-accent flex-shrink-0" size={20} />
+                                <div className="flex-1 min-w-0">
                                     <p className="text-sm font-bold tracking-tight">Processing Geometry</p>
-                                    <p className="text-[10px] text-brand-text-muted uppercase tracking-widest font-black mt-1">Applying Inversion & Mirroring</p>
+                                    <p className="text-[10px] text-brand-text-muted uppercase tracking-widest font-black">{progress.completed} / {progress.total} layers</p>
                                 </div>
+                                <button onClick={cancelProcessing} className="text-brand-text-muted hover:text-white" title="Cancel processing">
+                                    <X size={14} />
+                                </button>
+                            </div>
+                            <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+                                <div className="h-full bg-brand-accent transition-all duration-300" style={{ width: `${progress.total > 0 ? (progress.completed / progress.total) * 100 : 0}%` }} />
                             </div>
+                            {Object.entries(progress.stages).map(([layerId, stage]) => (
+                                <div key={layerId} className="flex justify-between text-[10px] font-mono text-white/70">
+                                    <span className="truncate pr-2">{layers.find(l => l.id === layerId)?.name ?? layerId}</span>
+                                    <span className="text-brand-accent uppercase">{stage}</span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+
+                    {!isGeometryProcessing && staleLayerIds.length > 0 && (
+                        <div className="absolute top-20 right-6 z-40 w-64 bg-black/60 backdrop-blur-sm p-4 rounded-2xl border border-amber-400/20 shadow-2xl space-y-3">
+                            <div>
+                                <p className="text-sm font-bold tracking-tight text-amber-400">Processing Incomplete</p>
+                                <p className="text-[10px] text-brand-text-muted">Export is blocked until these layers are processed:</p>
+                            </div>
+                            {staleLayerIds.map(layerId => (
+                                <div key={layerId} className="text-[10px] font-mono text-white/70 truncate">{layers.find(l => l.id === layerId)?.name ?? layerId}</div>
+                            ))}
+                            <button onClick={runProcessing} className="w-full py-1.5 text-[9px] font-black rounded-lg bg-brand-accent text-white shadow-md">REPROCESS</button>
                         </div>
                     )}
 
                     <div className="w-full h-full max-w-5xl max-h-[85svh]">
-                        <PCBPreview layers={processedLayers.length > 0 ? processedLayers : layers} viewMode={viewMode} />
+                        <PCBPreview layers={processedLayers.length > 0 ? processedLayers : layers} viewMode={viewMode} alignment={alignment} cutout={cutout} />
                     </div>
 
                     <div className="absolute bottom-6 left-6 flex gap-4 animate-in slide-in-from-left-4 duration-500">
@@ -470,6 +796,476 @@ const App: React.FC = () => {
                                     <input type="range" min="40" max="80" step="1" value={selectedLayer.frequency} onChange={(e) => updateLayer(selectedLayer.id, { frequency: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
                                 </div>
 
+                                <div className="pt-4 space-y-4 border-t border-brand-border">
+                                    <div className="text-[10px] font-bold text-brand-text-muted uppercase tracking-wider leading-none">Laser Process</div>
+                                    <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                        {(['fill', 'outline', 'cut'] as const).map(p => (
+                                            <button
+                                                key={p}
+                                                onClick={() => updateProcessing(selectedLayer, { process: p })}
+                                                className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedProcessing.process === p ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                            >
+                                                {p === 'fill' ? 'FILL' : p === 'outline' ? 'OUTLINE' : 'CUT'}
+                                            </button>
+                                        ))}
+                                    </div>
+
+                                    {(selectedLayer.copperMode === 'isolation' || selectedLayer.copperMode === 'hybrid') && (
+                                        <div className="text-[10px] text-brand-text-muted">Isolation moats are always engraved as outlines.</div>
+                                    )}
+
+                                    <div className="flex justify-between items-center text-[10px] font-bold">
+                                        <span className="text-brand-text-muted uppercase tracking-tight">Passes</span>
+                                        <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedProcessing.passes}</span>
+                                    </div>
+                                    <input type="range" min="1" max="20" step="1" value={selectedProcessing.passes} onChange={(e) => updateProcessing(selectedLayer, { passes: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                    {selectedProcessing.process === 'fill' ? (
+                                        <>
+                                            <div className="flex justify-between items-center text-[10px] font-bold">
+                                                <span className="text-brand-text-muted uppercase tracking-tight">Line Spacing (mm)</span>
+                                                <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedProcessing.lineSpacing.toFixed(3)}</span>
+                                            </div>
+                                            <input type="range" min={MIN_LINE_SPACING} max="0.3" step="0.005" value={selectedProcessing.lineSpacing} onChange={(e) => updateProcessing(selectedLayer, { lineSpacing: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                            <div className="flex justify-between items-center text-[10px] font-bold">
+                                                <span className="text-brand-text-muted uppercase tracking-tight">Scan Angle (°)</span>
+                                                <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedProcessing.scanAngle}</span>
+                                            </div>
+                                            <input type="range" min="0" max="179" step="1" value={selectedProcessing.scanAngle} onChange={(e) => updateProcessing(selectedLayer, { scanAngle: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                            <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                {[false, true].map(bidirectional => (
+                                                    <button
+                                                        key={String(bidirectional)}
+                                                        onClick={() => updateProcessing(selectedLayer, { bidirectional })}
+                                                        className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedProcessing.bidirectional === bidirectional ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                    >
+                                                        {bidirectional ? 'BOTH WAYS' : 'ONE WAY'}
+                                                    </button>
+                                                ))}
+                                            </div>
+
+                                            <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                {[false, true].map(crossHatch => (
+                                                    <button
+                                                        key={String(crossHatch)}
+                                                        onClick={() => updateProcessing(selectedLayer, { crossHatch })}
+                                                        className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedProcessing.crossHatch === crossHatch ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                    >
+                                                        {crossHatch ? 'CROSS-HATCH' : 'SINGLE HATCH'}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <div className="flex justify-between items-center text-[10px] font-bold">
+                                                <span className="text-brand-text-muted uppercase tracking-tight">Kerf (mm)</span>
+                                                <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedProcessing.kerf}</span>
+                                            </div>
+                                            <input type="range" min="0" max="0.3" step="0.01" value={selectedProcessing.kerf} onChange={(e) => updateProcessing(selectedLayer, { kerf: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                        </>
+                                    )}
+                                </div>
+
+                                {selectedLayer.gerber && selectedGerberFormat && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                            <span className="text-brand-text-muted uppercase tracking-wider leading-none">Coordinate Format</span>
+                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{formatLabel(selectedGerberFormat)}</span>
+                                        </div>
+
+                                        {selectedLayer.gerber.warnings.length > 0 && !selectedLayer.gerber.override && (
+                                            <div className="space-y-1 text-[10px] text-amber-400 bg-amber-400/10 border border-amber-400/20 rounded-lg px-2 py-1.5">
+                                                {selectedLayer.gerber.warnings.map(w => <div key={w}>{w}</div>)}
+                                            </div>
+                                        )}
+
+                                        <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                            {(['mm', 'in'] as const).map(u => (
+                                                <button
+                                                    key={u}
+                                                    onClick={() => updateGerberFormat(selectedLayer, { units: u })}
+                                                    className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedGerberFormat.units === u ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                >
+                                                    {u === 'mm' ? 'MILLIMETRE' : 'INCH'}
+                                                </button>
+                                            ))}
+                                        </div>
+
+                                        <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                            {(['L', 'T'] as const).map(z => (
+                                                <button
+                                                    key={z}
+                                                    onClick={() => updateGerberFormat(selectedLayer, { zero: z })}
+                                                    className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedGerberFormat.zero === z ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                >
+                                                    {z === 'L' ? 'LEADING ZEROS' : 'TRAILING ZEROS'}
+                                                </button>
+                                            ))}
+                                        </div>
+
+                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                            <span className="text-brand-text-muted uppercase tracking-tight">Integer Digits</span>
+                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedGerberFormat.places[0]}</span>
+                                        </div>
+                                        <input type="range" min="1" max="7" step="1" value={selectedGerberFormat.places[0]} onChange={(e) => updateGerberFormat(selectedLayer, { places: [parseInt(e.target.value), selectedGerberFormat.places[1]] })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                            <span className="text-brand-text-muted uppercase tracking-tight">Decimal Digits</span>
+                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedGerberFormat.places[1]}</span>
+                                        </div>
+                                        <input type="range" min="1" max="7" step="1" value={selectedGerberFormat.places[1]} onChange={(e) => updateGerberFormat(selectedLayer, { places: [selectedGerberFormat.places[0], parseInt(e.target.value)] })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                        {selectedLayer.gerber.override && (
+                                            <button onClick={() => updateGerberFormat(selectedLayer, null)} className="w-full py-1.5 text-[9px] font-black rounded-lg bg-white/5 text-brand-text-muted hover:text-white hover:bg-white/10 transition-all">
+                                                USE FILE HEADER ({formatLabel(selectedLayer.gerber.detected)})
+                                            </button>
+                                        )}
+                                    </div>
+                                )}
+
+                                {selectedLayer.side === 'board' && !selectedLayer.drill && project?.board && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                            <span className="text-brand-text-muted uppercase tracking-wider leading-none">Board Outline</span>
+                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{project.board.contours.length} contour{project.board.contours.length === 1 ? '' : 's'}</span>
+                                        </div>
+                                        {project.board.gaps.length > 0 && (
+                                            <div className="space-y-1 text-[10px] text-amber-400 bg-amber-400/10 border border-amber-400/20 rounded-lg px-2 py-1.5">
+                                                {project.board.gaps.map((gap, i) => (
+                                                    <div key={i}>Open run ends at {gap.from.x.toFixed(2)}, {gap.from.y.toFixed(2)} ({gap.length.toFixed(2)} mm from its start)</div>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {selectedLayer.drill && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <div className="text-[10px] font-bold text-brand-text-muted uppercase tracking-wider leading-none">Drill Mode</div>
+                                        <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                            {(['pilot', 'through'] as const).map(m => (
+                                                <button
+                                                    key={m}
+                                                    onClick={() => updateDrill(selectedLayer, { drillMode: m })}
+                                                    className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedLayer.drillMode === m ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                >
+                                                    {m === 'pilot' ? 'PILOT MARK' : 'CUT THROUGH'}
+                                                </button>
+                                            ))}
+                                        </div>
+
+                                        {selectedLayer.drillMode === 'pilot' && (
+                                            <div className="space-y-4">
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Pilot Diameter (mm)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.pilotDiameter}</span>
+                                                </div>
+                                                <input type="range" min="0.1" max="1" step="0.05" value={selectedLayer.pilotDiameter} onChange={(e) => updateDrill(selectedLayer, { pilotDiameter: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                            </div>
+                                        )}
+
+                                        <div className="space-y-1">
+                                            <div className="text-[10px] font-bold text-brand-text-muted uppercase tracking-wider">Tool Table ({selectedLayer.drill.plating})</div>
+                                            {selectedLayer.drill.tools.map(tool => (
+                                                <div key={tool.code} className="flex justify-between text-[10px] font-mono text-white/70 bg-white/5 px-2 py-1 rounded">
+                                                    <span>{tool.code}</span>
+                                                    <span>⌀ {tool.diameter.toFixed(3)} mm</span>
+                                                    <span>{tool.hitCount} hits</span>
+                                                </div>
+                                            ))}
+                                        </div>
+                                    </div>
+                                )}
+
+                                {isCopperLayer(selectedLayer) && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <div className="text-[10px] font-bold text-brand-text-muted uppercase tracking-wider leading-none">Copper Mode</div>
+                                        <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                            {(['clearance', 'isolation', 'hybrid'] as const).map(m => (
+                                                <button
+                                                    key={m}
+                                                    onClick={() => updateLayer(selectedLayer.id, { copperMode: m, isolation: selectedIsolation, hybrid: selectedHybrid })}
+                                                    className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${(selectedLayer.copperMode ?? 'clearance') === m ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                >
+                                                    {m === 'clearance' ? 'FULL CLEAR' : m === 'isolation' ? 'ISOLATION' : 'HYBRID'}
+                                                </button>
+                                            ))}
+                                        </div>
+
+                                        {(selectedLayer.copperMode === 'isolation' || selectedLayer.copperMode === 'hybrid') && (
+                                            <div className="space-y-4">
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Tool Width (mm)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedIsolation.toolWidth}</span>
+                                                </div>
+                                                <input type="range" min="0.01" max="0.3" step="0.01" value={selectedIsolation.toolWidth} onChange={(e) => updateIsolation(selectedLayer, { toolWidth: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Passes</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedIsolation.passes}</span>
+                                                </div>
+                                                <input type="range" min="1" max="10" step="1" value={selectedIsolation.passes} onChange={(e) => updateIsolation(selectedLayer, { passes: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Overlap (%)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{Math.round(selectedIsolation.overlap * 100)}</span>
+                                                </div>
+                                                <input type="range" min="0" max="0.8" step="0.05" value={selectedIsolation.overlap} onChange={(e) => updateIsolation(selectedLayer, { overlap: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between text-[10px] font-mono text-white/70 bg-white/5 px-2 py-1 rounded">
+                                                    <span>Moat width</span>
+                                                    <span>{isolationWidth(selectedIsolation).toFixed(3)} mm</span>
+                                                </div>
+                                            </div>
+                                        )}
+
+                                        {selectedLayer.copperMode === 'hybrid' && (
+                                            <div className="space-y-4 pt-2 pl-2 border-l-2 border-brand-accent/20">
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Clear Beyond (mm)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedHybrid.distance}</span>
+                                                </div>
+                                                <input type="range" min="0.2" max="5" step="0.1" value={selectedHybrid.distance} onChange={(e) => updateHybrid(selectedLayer, { distance: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                    {[true, false].map(clearFar => (
+                                                        <button
+                                                            key={String(clearFar)}
+                                                            onClick={() => updateHybrid(selectedLayer, { clearFar })}
+                                                            className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedHybrid.clearFar === clearFar ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                        >
+                                                            {clearFar ? 'CLEAR FAR AREAS' : 'LEAVE FLOATING'}
+                                                        </button>
+                                                    ))}
+                                                </div>
+
+                                                {selectedHybrid.clearFar && (
+                                                    <>
+                                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                                            <span className="text-brand-text-muted uppercase tracking-tight">Clear Power</span>
+                                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedHybrid.power}%</span>
+                                                        </div>
+                                                        <input type="range" min="0" max="100" step="1" value={selectedHybrid.power} onChange={(e) => updateHybrid(selectedLayer, { power: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                                            <span className="text-brand-text-muted uppercase tracking-tight">Clear Speed (mm/s)</span>
+                                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedHybrid.speed}</span>
+                                                        </div>
+                                                        <input type="range" min="10" max="3000" step="10" value={selectedHybrid.speed} onChange={(e) => updateHybrid(selectedLayer, { speed: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                        <div className="flex justify-between items-center text-[10px] font-bold">
+                                                            <span className="text-brand-text-muted uppercase tracking-tight">Clear LPI</span>
+                                                            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedHybrid.lpi}</span>
+                                                        </div>
+                                                        <input type="range" min="50" max="1000" step="10" value={selectedHybrid.lpi} onChange={(e) => updateHybrid(selectedLayer, { lpi: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                                    </>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {isMaskLayer(selectedLayer) && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <button onClick={() => updateLayer(selectedLayer.id, { maskOpenings: selectedLayer.maskOpenings ? undefined : DEFAULT_MASK_OPENINGS })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${selectedLayer.maskOpenings ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
+                                            <div className="flex items-center gap-3">
+                                                <Activity size={14} />
+                                                <span className="text-xs font-bold">Mask Openings</span>
+                                            </div>
+                                            <div className={`w-3 h-3 rounded-full border-2 ${selectedLayer.maskOpenings ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
+                                        </button>
+
+                                        {selectedLayer.maskOpenings && (
+                                            <div className="space-y-4 pt-2 pl-2 border-l-2 border-brand-accent/20">
+                                                <div className="text-[10px] text-brand-text-muted">Pad openings are ablated from cured mask film; Invert Paths does not apply.</div>
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Expansion (mm)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.maskOpenings.expansion}</span>
+                                                </div>
+                                                <input type="range" min="-0.2" max="0.3" step="0.01" value={selectedLayer.maskOpenings.expansion} onChange={(e) => updateMaskOpenings(selectedLayer, { expansion: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Ablation Power</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.maskOpenings.power}%</span>
+                                                </div>
+                                                <input type="range" min="0" max="100" step="1" value={selectedLayer.maskOpenings.power} onChange={(e) => updateMaskOpenings(selectedLayer, { power: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Ablation Speed (mm/s)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.maskOpenings.speed}</span>
+                                                </div>
+                                                <input type="range" min="10" max="3000" step="10" value={selectedLayer.maskOpenings.speed} onChange={(e) => updateMaskOpenings(selectedLayer, { speed: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Ablation LPI</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.maskOpenings.lpi}</span>
+                                                </div>
+                                                <input type="range" min="50" max="1000" step="10" value={selectedLayer.maskOpenings.lpi} onChange={(e) => updateMaskOpenings(selectedLayer, { lpi: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Passes</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.maskOpenings.passes}</span>
+                                                </div>
+                                                <input type="range" min="1" max="10" step="1" value={selectedLayer.maskOpenings.passes} onChange={(e) => updateMaskOpenings(selectedLayer, { passes: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {isSilkLayer(selectedLayer) && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <button onClick={() => updateLayer(selectedLayer.id, { silkscreen: selectedLayer.silkscreen ? undefined : DEFAULT_SILKSCREEN })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${selectedLayer.silkscreen ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
+                                            <div className="flex items-center gap-3">
+                                                <Type size={14} />
+                                                <span className="text-xs font-bold">Silkscreen Clean-up</span>
+                                            </div>
+                                            <div className={`w-3 h-3 rounded-full border-2 ${selectedLayer.silkscreen ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
+                                        </button>
+
+                                        {selectedLayer.silkscreen && (
+                                            <div className="space-y-4 pt-2 pl-2 border-l-2 border-brand-accent/20">
+                                                <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                    {(['fill', 'line'] as const).map(mode => (
+                                                        <button
+                                                            key={mode}
+                                                            onClick={() => updateSilkscreen(selectedLayer, { mode })}
+                                                            className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedLayer.silkscreen!.mode === mode ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                        >
+                                                            {mode === 'fill' ? 'FILL ENGRAVE' : 'SINGLE LINE'}
+                                                        </button>
+                                                    ))}
+                                                </div>
+                                                {!selectedLayer.gerber && (
+                                                    <div className="text-[10px] text-brand-text-muted">Strokes are only known for Gerber files; this layer has its thin parts grown to the minimum width instead, and single-line mode traces its outline.</div>
+                                                )}
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Min Line Width (mm)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.silkscreen.minLineWidth}</span>
+                                                </div>
+                                                <input type="range" min="0" max="0.5" step="0.01" value={selectedLayer.silkscreen.minLineWidth} onChange={(e) => updateSilkscreen(selectedLayer, { minLineWidth: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Min Feature Size (mm)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.silkscreen.minFeatureSize}</span>
+                                                </div>
+                                                <input type="range" min="0" max="2" step="0.05" value={selectedLayer.silkscreen.minFeatureSize} onChange={(e) => updateSilkscreen(selectedLayer, { minFeatureSize: parseFloat(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+
+                                                <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                    {[false, true].map(dropSmall => (
+                                                        <button
+                                                            key={String(dropSmall)}
+                                                            onClick={() => updateSilkscreen(selectedLayer, { dropSmall })}
+                                                            className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${selectedLayer.silkscreen!.dropSmall === dropSmall ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                        >
+                                                            {dropSmall ? 'DROP SMALL' : 'WARN ONLY'}
+                                                        </button>
+                                                    ))}
+                                                </div>
+
+                                                <button onClick={() => updateSilkscreen(selectedLayer, { clipToMask: !selectedLayer.silkscreen!.clipToMask })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${selectedLayer.silkscreen.clipToMask ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
+                                                    <span className="text-xs font-bold">Keep Off Pads</span>
+                                                    <div className={`w-3 h-3 rounded-full border-2 ${selectedLayer.silkscreen.clipToMask ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
+                                                </button>
+                                                {selectedLayer.silkscreen.clipToMask && !silkKeepOuts[selectedLayer.id] && (
+                                                    <div className="text-[10px] text-brand-text-muted">No solder mask layer on this side to take the pad openings from.</div>
+                                                )}
+
+                                                {selectedSmallFeatures > 0 && (
+                                                    <div className="text-[10px] text-amber-400 bg-amber-400/10 border border-amber-400/20 rounded-lg px-2 py-1.5">
+                                                        {selectedSmallFeatures} feature{selectedSmallFeatures === 1 ? '' : 's'} under {selectedLayer.silkscreen.minFeatureSize} mm {selectedLayer.silkscreen.dropSmall ? 'left out' : 'may not mark cleanly'}
+                                                    </div>
+                                                )}
+                                            </div>
+                                        )}
+                                    </div>
+                                )}
+
+                                {selectedLayer.nets && selectedLayer.nets.length > 0 && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <div className="text-[10px] font-bold text-brand-text-muted uppercase tracking-wider leading-none">Net Export</div>
+                                        {!exportsCopperImage(selectedLayer) && (
+                                            <div className="text-[10px] text-brand-text-muted">Split nets are exported while the layer engraves its copper (clearance, not inverted).</div>
+                                        )}
+                                        <div className="space-y-1 max-h-40 overflow-y-auto">
+                                            {selectedLayer.nets.map(net => (
+                                                <button
+                                                    key={net.name}
+                                                    onClick={() => toggleNetSplit(selectedLayer, net.name)}
+                                                    className={`w-full text-left text-[10px] font-mono px-2 py-1 rounded truncate transition-all ${selectedNetSplits.some(s => s.net === net.name) ? 'bg-brand-accent/20 text-brand-accent' : 'bg-white/5 text-white/70 hover:bg-white/10'}`}
+                                                >
+                                                    {net.name}
+                                                </button>
+                                            ))}
+                                        </div>
+
+                                        {selectedNetSplits.map(split => (
+                                            <div key={split.net} className="space-y-3 p-2 rounded-lg bg-white/5">
+                                                <div className="text-[10px] font-mono text-brand-accent truncate">{split.net}</div>
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Power</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{split.power}%</span>
+                                                </div>
+                                                <input type="range" min="0" max="100" step="1" value={split.power} onChange={(e) => updateNetSplit(selectedLayer, split.net, { power: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Speed (mm/s)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{split.speed}</span>
+                                                </div>
+                                                <input type="range" min="10" max="3000" step="10" value={split.speed} onChange={(e) => updateNetSplit(selectedLayer, split.net, { speed: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                                <div className="flex justify-between items-center text-[10px] font-bold">
+                                                    <span className="text-brand-text-muted uppercase tracking-tight">Frequency (kHz)</span>
+                                                    <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{split.frequency}</span>
+                                                </div>
+                                                <input type="range" min="40" max="80" step="1" value={split.frequency} onChange={(e) => updateNetSplit(selectedLayer, split.net, { frequency: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                            </div>
+                                        ))}
+                                    </div>
+                                )}
+
+                                {selectedLayer.gerber && isCopperLayer(selectedLayer) && (
+                                    <div className="pt-4 space-y-4 border-t border-brand-border">
+                                        <button onClick={() => updateLayer(selectedLayer.id, { featureClasses: selectedLayer.featureClasses ? undefined : defaultFeatureClasses(selectedLayer) })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${selectedLayer.featureClasses ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
+                                            <div className="flex items-center gap-3">
+                                                <Layers size={14} />
+                                                <span className="text-xs font-bold">Split by Feature Class</span>
+                                            </div>
+                                            <div className={`w-3 h-3 rounded-full border-2 ${selectedLayer.featureClasses ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
+                                        </button>
+
+                                        {selectedLayer.featureClasses && !exportsCopperImage(selectedLayer) && (
+                                            <div className="text-[10px] text-brand-text-muted">Feature classes are exported while the layer engraves its copper (clearance, not inverted).</div>
+                                        )}
+
+                                        {selectedLayer.featureClasses && FEATURE_CLASSES.map(c => {
+                                            const settings = selectedLayer.featureClasses![c];
+                                            return (
+                                                <div key={c} className="space-y-3 p-2 rounded-lg bg-white/5">
+                                                    <div className="text-[10px] font-bold text-brand-accent uppercase tracking-wider">{FEATURE_CLASS_LABELS[c]}</div>
+                                                    <div className="flex justify-between items-center text-[10px] font-bold">
+                                                        <span className="text-brand-text-muted uppercase tracking-tight">Power</span>
+                                                        <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{settings.power}%</span>
+                                                    </div>
+                                                    <input type="range" min="0" max="100" step="1" value={settings.power} onChange={(e) => updateFeatureClass(selectedLayer, c, { power: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                                    <div className="flex justify-between items-center text-[10px] font-bold">
+                                                        <span className="text-brand-text-muted uppercase tracking-tight">Speed (mm/s)</span>
+                                                        <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{settings.speed}</span>
+                                                    </div>
+                                                    <input type="range" min="10" max="3000" step="10" value={settings.speed} onChange={(e) => updateFeatureClass(selectedLayer, c, { speed: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                                    <div className="flex justify-between items-center text-[10px] font-bold">
+                                                        <span className="text-brand-text-muted uppercase tracking-tight">Passes</span>
+                                                        <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{settings.passes}</span>
+                                                    </div>
+                                                    <input type="range" min="1" max="10" step="1" value={settings.passes} onChange={(e) => updateFeatureClass(selectedLayer, c, { passes: parseInt(e.target.value) })} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+                                                </div>
+                                            );
+                                        })}
+                                    </div>
+                                )}
+
                                 <div className="pt-4 space-y-3 border-t border-brand-border">
                                     <button onClick={() => updateLayer(selectedLayer.id, { inverted: !selectedLayer.inverted })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${selectedLayer.inverted ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
                                         <div className="flex items-center gap-3">
@@ -483,12 +1279,12 @@ const App: React.FC = () => {
                                         <div className="space-y-4 pt-2 pl-2 border-l-2 border-brand-accent/20">
                                             <div className="flex justify-between items-center text-[10px] font-bold">
                                                 <span className="text-brand-text-muted uppercase tracking-tight">Invert Padding (mm)</span>
-                                                <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{selectedLayer.invertPadding ?? 2}</span>
+                                                <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{invertPadding(selectedLayer, !!boardShape)}</span>
                                             </div>
                                             <input
                                                 type="range"
                                                 min="0" max="20" step="0.5"
-                                                value={selectedLayer.invertPadding ?? 2}
+                                                value={invertPadding(selectedLayer, !!boardShape)}
                                                 onChange={(e) => updateLayer(selectedLayer.id, { invertPadding: parseFloat(e.target.value) })}
                                                 className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent"
                                             />
@@ -502,6 +1298,51 @@ const App: React.FC = () => {
                                         </div>
                                         <div className={`w-3 h-3 rounded-full border-2 ${selectedLayer.mirrored ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
                                     </button>
+
+                                    {selectedLayer.mirrored && (
+                                        <div className="space-y-4 pt-2 pl-2 border-l-2 border-brand-accent/20">
+                                            <div className="text-[10px] font-bold text-brand-text-muted uppercase tracking-wider leading-none">Mirror Axis (all mirrored layers)</div>
+                                            <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                {(['vertical', 'horizontal'] as const).map(orientation => (
+                                                    <button
+                                                        key={orientation}
+                                                        onClick={() => setMirrorSettings({ orientation })}
+                                                        className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${mirrorSettings.orientation === orientation ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                    >
+                                                        {orientation === 'vertical' ? 'FLIP LEFT-RIGHT' : 'FLIP TOP-BOTTOM'}
+                                                    </button>
+                                                ))}
+                                            </div>
+
+                                            <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                                                {[false, true].map(custom => (
+                                                    <button
+                                                        key={String(custom)}
+                                                        onClick={() => setMirrorSettings(prev => ({ orientation: prev.orientation, position: custom ? mirrorAxis.position : undefined }))}
+                                                        className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${(mirrorSettings.position !== undefined) === custom ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                                                    >
+                                                        {custom ? 'CUSTOM AXIS' : 'BOARD CENTRE'}
+                                                    </button>
+                                                ))}
+                                            </div>
+
+                                            <div className="flex justify-between items-center text-[10px] font-bold">
+                                                <span className="text-brand-text-muted uppercase tracking-tight">Axis {mirrorAxis.orientation === 'vertical' ? 'X' : 'Y'} (mm)</span>
+                                                <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{mirrorAxis.position.toFixed(2)}</span>
+                                            </div>
+                                            {mirrorSettings.position !== undefined && (
+                                                <input
+                                                    type="range"
+                                                    min={mirrorAxis.orientation === 'vertical' ? boardBounds.x : boardBounds.y}
+                                                    max={mirrorAxis.orientation === 'vertical' ? boardBounds.x + boardBounds.width : boardBounds.y + boardBounds.height}
+                                                    step="0.1"
+                                                    value={mirrorAxis.position}
+                                                    onChange={(e) => setMirrorSettings(prev => ({ ...prev, position: parseFloat(e.target.value) }))}
+                                                    className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent"
+                                                />
+                                            )}
+                                        </div>
+                                    )}
                                 </div>
                             </div>
                         ) : (
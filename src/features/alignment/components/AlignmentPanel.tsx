@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { Crosshair } from 'lucide-react';
+import { AlignmentSettings, PCBLayer } from '~types/pcb';
+import { AlignmentGeometry } from '../utils/alignment';
+
+interface AlignmentPanelProps {
+    settings: AlignmentSettings;
+    geometry: AlignmentGeometry | null;
+    drillLayers: PCBLayer[];
+    onChange: (updates: Partial<AlignmentSettings>) => void;
+}
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+    onChange: (value: number) => void;
+}
+
+// Hits listed for picking; the largest tools come first as the likely tooling holes
+const MAX_LISTED_HITS = 40;
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, unit = '', onChange }) => (
+    <>
+        <div className="flex justify-between items-center text-[10px] font-bold">
+            <span className="text-brand-text-muted uppercase tracking-tight">{label}</span>
+            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{value}{unit}</span>
+        </div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+    </>
+);
+
+export const AlignmentPanel: React.FC<AlignmentPanelProps> = ({ settings, geometry, drillLayers, onChange }) => {
+    const candidates = useMemo(() => drillLayers.flatMap(layer => {
+        const drill = layer.drill;
+        if (!drill) return [];
+        const diameters = new Map(drill.tools.map(t => [t.code, t.diameter]));
+        return drill.hits
+            .filter(hit => hit.endX === undefined) // Slots can't take a pin
+            .map(hit => ({ x: hit.x, y: hit.y, tool: hit.tool, diameter: diameters.get(hit.tool) ?? 0 }));
+    }).sort((a, b) => b.diameter - a.diameter).slice(0, MAX_LISTED_HITS), [drillLayers]);
+
+    const isPicked = (p: { x: number; y: number }) => settings.picked.some(q => q.x === p.x && q.y === p.y);
+
+    const togglePick = (p: { x: number; y: number }) => onChange({
+        picked: isPicked(p)
+            ? settings.picked.filter(q => q.x !== p.x || q.y !== p.y)
+            : [...settings.picked, { x: p.x, y: p.y }]
+    });
+
+    return (
+        <div className="space-y-4">
+            <button onClick={() => onChange({ enabled: !settings.enabled })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${settings.enabled ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
+                <div className="flex items-center gap-3">
+                    <Crosshair size={14} />
+                    <span className="text-xs font-bold">Double-Sided Alignment</span>
+                </div>
+                <div className={`w-3 h-3 rounded-full border-2 ${settings.enabled ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
+            </button>
+
+            {settings.enabled && (
+                <div className="space-y-4 pl-2 border-l-2 border-brand-accent/20">
+                    <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                        {(['outline', 'drill'] as const).map(source => (
+                            <button
+                                key={source}
+                                onClick={() => onChange({ source })}
+                                disabled={source === 'drill' && candidates.length === 0}
+                                className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all disabled:opacity-30 ${settings.source === source ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                            >
+                                {source === 'outline' ? 'OUTSIDE EDGE' : 'DRILL HITS'}
+                            </button>
+                        ))}
+                    </div>
+
+                    {settings.source === 'outline' ? (
+                        <Slider label="Edge Margin (mm)" value={settings.margin} min={2} max={20} step={0.5} onChange={margin => onChange({ margin })} />
+                    ) : (
+                        <div className="space-y-1 max-h-40 overflow-y-auto">
+                            {candidates.map(hit => (
+                                <button
+                                    key={`${hit.tool}-${hit.x}-${hit.y}`}
+                                    onClick={() => togglePick(hit)}
+                                    className={`w-full flex justify-between text-[10px] font-mono px-2 py-1 rounded transition-all ${isPicked(hit) ? 'bg-brand-accent/20 text-brand-accent' : 'bg-white/5 text-white/70 hover:bg-white/10'}`}
+                                >
+                                    <span>{hit.tool} ⌀ {hit.diameter.toFixed(2)}</span>
+                                    <span>{hit.x.toFixed(2)}, {hit.y.toFixed(2)}</span>
+                                </button>
+                            ))}
+                        </div>
+                    )}
+
+                    <Slider label="Pin Diameter (mm)" value={settings.holeDiameter} min={1} max={6} step={0.1} onChange={holeDiameter => onChange({ holeDiameter })} />
+                    <Slider label="Fiducial Size (mm)" value={settings.fiducialSize} min={0.5} max={5} step={0.1} onChange={fiducialSize => onChange({ fiducialSize })} />
+                    <Slider label="Jig Clearance (mm)" value={settings.jigClearance} min={0} max={1} step={0.05} onChange={jigClearance => onChange({ jigClearance })} />
+                    <Slider label="Cut Power" value={settings.cutPower} min={0} max={100} step={1} unit="%" onChange={cutPower => onChange({ cutPower })} />
+                    <Slider label="Cut Speed (mm/s)" value={settings.cutSpeed} min={1} max={200} step={1} onChange={cutSpeed => onChange({ cutSpeed })} />
+                    <Slider label="Cut Passes" value={settings.cutPasses} min={1} max={20} step={1} onChange={cutPasses => onChange({ cutPasses })} />
+                    <Slider label="Fiducial Power" value={settings.markPower} min={0} max={100} step={1} unit="%" onChange={markPower => onChange({ markPower })} />
+                    <Slider label="Fiducial Speed (mm/s)" value={settings.markSpeed} min={10} max={3000} step={10} onChange={markSpeed => onChange({ markSpeed })} />
+
+                    {geometry && (
+                        <div className="space-y-1">
+                            <div className="flex justify-between text-[10px] font-mono text-white/70 bg-white/5 px-2 py-1 rounded">
+                                <span>Blank</span>
+                                <span>{geometry.blank.width.toFixed(1)} x {geometry.blank.height.toFixed(1)} mm</span>
+                            </div>
+                            <div className="flex justify-between text-[10px] font-mono text-white/70 bg-white/5 px-2 py-1 rounded">
+                                <span>Registration points</span>
+                                <span>{geometry.points.length}</span>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,148 @@
+import { AlignmentSettings, MirrorAxis } from '~types/pcb';
+import {
+    Bounds,
+    Point,
+    Polygon,
+    applyMatrix,
+    circlePolygon,
+    offset,
+    polygonsBounds,
+    polygonsToPath,
+    rectPolygon,
+    transformPolygons,
+    union
+} from '@/features/parser/utils/geometry';
+import { mirrorMatrix } from '@/features/parser/utils/mirror';
+import { XCSLayer } from '@/features/parser/utils/xcsGenerator';
+
+/**
+ * Double-sided alignment
+ *
+ * The back is lasered after the blank is flipped about the mirror axis. Registration pins
+ * keep it in place: a hole at p on the front lands at mirror(p) once flipped, so the jig
+ * carries pins at both (generated holes sit on the axis, where the two coincide). The jig
+ * also gets a pocket the blank drops into in either orientation.
+ */
+
+export const DEFAULT_ALIGNMENT: AlignmentSettings = {
+    enabled: false,
+    source: 'outline',
+    holeDiameter: 3,
+    margin: 5,
+    fiducialSize: 2,
+    jigClearance: 0.15,
+    picked: [],
+    cutSpeed: 10,
+    cutPower: 100,
+    cutPasses: 3,
+    markSpeed: 300,
+    markPower: 40
+};
+
+export interface AlignmentGeometry {
+    points: Point[]; // Registration centres, board space
+    blank: Bounds; // Stock the board is made from
+    holes: string; // Pin holes to cut through the blank (empty when reusing drill hits)
+    frontMarks: string; // Fiducial crosses as engraved on the front
+    backMarks: string; // The same crosses in the mirrored back-side frame
+    jig: string; // Pocket outline and pin holes of the flip jig
+}
+
+// Closer than this counts as the same pin
+const PIN_TOLERANCE = 0.01;
+
+/**
+ * Registration centres: the picked drill hits, or two holes on the mirror axis just
+ * beyond the board edge.
+ */
+export const registrationPoints = (settings: AlignmentSettings, board: Bounds, axis: MirrorAxis): Point[] => {
+    if (settings.source === 'drill') return settings.picked;
+
+    if (axis.orientation === 'vertical') {
+        return [
+            { x: axis.position, y: board.y - settings.margin },
+            { x: axis.position, y: board.y + board.height + settings.margin }
+        ];
+    }
+    return [
+        { x: board.x - settings.margin, y: axis.position },
+        { x: board.x + board.width + settings.margin, y: axis.position }
+    ];
+};
+
+/**
+ * Blank the board is cut from: the board plus the margin, grown to leave a hole diameter
+ * of stock around every pin hole.
+ */
+export const blankBounds = (settings: AlignmentSettings, board: Bounds, points: Point[]): Bounds => {
+    const border = settings.margin + settings.holeDiameter;
+    const pinStock = settings.holeDiameter * 3;
+    return polygonsBounds([
+        rectPolygon(board.x + board.width / 2, board.y + board.height / 2, board.width + border * 2, board.height + border * 2),
+        ...points.map(p => rectPolygon(p.x, p.y, pinStock, pinStock))
+    ]);
+};
+
+const crossPath = (p: Point, size: number): string => {
+    const h = size / 2;
+    return `M${(p.x - h).toFixed(4)} ${p.y.toFixed(4)} L${(p.x + h).toFixed(4)} ${p.y.toFixed(4)} `
+        + `M${p.x.toFixed(4)} ${(p.y - h).toFixed(4)} L${p.x.toFixed(4)} ${(p.y + h).toFixed(4)}`;
+};
+
+const fiducialPath = (points: Point[], size: number): string =>
+    points.map(p => crossPath(p, size) + ' ' + polygonsToPath([circlePolygon(p.x, p.y, size * 0.3)])).join(' ');
+
+const holePolygons = (points: Point[], diameter: number): Polygon[] =>
+    points.map(p => circlePolygon(p.x, p.y, diameter / 2));
+
+export const buildAlignment = (settings: AlignmentSettings, board: Bounds, axis: MirrorAxis): AlignmentGeometry => {
+    const m = mirrorMatrix(axis);
+    const points = registrationPoints(settings, board, axis);
+    const mirrored = points.map(p => applyMatrix(p, m));
+    const blank = blankBounds(settings, board, points);
+
+    // Pins for both orientations, without doubling the ones on the axis
+    const pins = [...points];
+    mirrored.forEach(p => {
+        if (!pins.some(q => Math.hypot(q.x - p.x, q.y - p.y) < PIN_TOLERANCE)) pins.push(p);
+    });
+
+    const blankPolygon = rectPolygon(blank.x + blank.width / 2, blank.y + blank.height / 2, blank.width, blank.height);
+    const pocket = offset(union([blankPolygon, ...transformPolygons([blankPolygon], m)]), settings.jigClearance, 'miter');
+
+    return {
+        points,
+        blank,
+        holes: settings.source === 'outline' ? polygonsToPath(holePolygons(points, settings.holeDiameter)) : '',
+        frontMarks: fiducialPath(points, settings.fiducialSize),
+        backMarks: fiducialPath(mirrored, settings.fiducialSize),
+        jig: polygonsToPath([...pocket, ...holePolygons(pins, settings.holeDiameter)])
+    };
+};
+
+// XCS layers are keyed by colour, so each output gets its own
+const ALIGNMENT_COLORS = {
+    holes: '#ff3b30',
+    front: '#34c759',
+    back: '#30b0c7',
+    jig: '#ff9500'
+};
+
+/**
+ * Export layers: pin holes and front fiducials run with the front, back fiducials with the
+ * mirrored back, and the jig is cut from its own sheet before either.
+ */
+export const alignmentXCSLayers = (geometry: AlignmentGeometry, settings: AlignmentSettings, frequency: number): XCSLayer[] => {
+    const cut = { speed: settings.cutSpeed, power: settings.cutPower, passes: settings.cutPasses, frequency, visible: true };
+    const mark = { speed: settings.markSpeed, power: settings.markPower, passes: 1, frequency, visible: true };
+
+    const layers: XCSLayer[] = [
+        { name: 'Flip Jig', paths: [geometry.jig], color: ALIGNMENT_COLORS.jig, processingType: 'VECTOR_CUTTING', ...cut },
+        { name: 'Fiducials (front)', paths: [geometry.frontMarks], color: ALIGNMENT_COLORS.front, processingType: 'VECTOR_ENGRAVING', ...mark },
+        { name: 'Fiducials (back)', paths: [geometry.backMarks], color: ALIGNMENT_COLORS.back, processingType: 'VECTOR_ENGRAVING', ...mark }
+    ];
+    if (geometry.holes) {
+        layers.splice(1, 0, { name: 'Registration Holes', paths: [geometry.holes], color: ALIGNMENT_COLORS.holes, processingType: 'VECTOR_CUTTING', ...cut });
+    }
+    return layers;
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Scissors } from 'lucide-react';
+import { CutoutSettings } from '~types/pcb';
+import { CutoutGeometry } from '../utils/cutout';
+
+interface CutoutPanelProps {
+    settings: CutoutSettings;
+    geometry: CutoutGeometry | null;
+    onChange: (updates: Partial<CutoutSettings>) => void;
+}
+
+interface SliderProps {
+    label: string;
+    value: number;
+    min: number;
+    max: number;
+    step: number;
+    unit?: string;
+    onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, min, max, step, unit = '', onChange }) => (
+    <>
+        <div className="flex justify-between items-center text-[10px] font-bold">
+            <span className="text-brand-text-muted uppercase tracking-tight">{label}</span>
+            <span className="text-brand-accent font-mono bg-brand-accent/10 px-2 py-0.5 rounded">{value}{unit}</span>
+        </div>
+        <input type="range" min={min} max={max} step={step} value={value} onChange={(e) => onChange(parseFloat(e.target.value))} className="w-full h-1.5 bg-white/10 rounded-lg appearance-none cursor-pointer accent-brand-accent" />
+    </>
+);
+
+export const CutoutPanel: React.FC<CutoutPanelProps> = ({ settings, geometry, onChange }) => (
+    <div className="space-y-4">
+        <button onClick={() => onChange({ enabled: !settings.enabled })} className={`w-full flex items-center justify-between p-3 rounded-xl border transition-all ${settings.enabled ? 'bg-brand-accent/10 border-brand-accent text-brand-accent' : 'bg-white/5 border-transparent hover:bg-white/10'}`}>
+            <div className="flex items-center gap-3">
+                <Scissors size={14} />
+                <span className="text-xs font-bold">Board Cut-out</span>
+            </div>
+            <div className={`w-3 h-3 rounded-full border-2 ${settings.enabled ? 'bg-brand-accent border-brand-accent' : 'border-white/20'}`} />
+        </button>
+
+        {settings.enabled && (
+            <div className="space-y-4 pl-2 border-l-2 border-brand-accent/20">
+                <div className="flex gap-1 bg-black/40 p-1 rounded-xl border border-brand-border">
+                    {(['none', 'tabs', 'mouseBites'] as const).map(tabStyle => (
+                        <button
+                            key={tabStyle}
+                            onClick={() => onChange({ tabStyle })}
+                            className={`flex-1 py-1.5 text-[9px] font-black rounded-lg transition-all ${settings.tabStyle === tabStyle ? 'bg-brand-accent text-white shadow-md' : 'text-brand-text-muted hover:text-white'}`}
+                        >
+                            {tabStyle === 'none' ? 'NO TABS' : tabStyle === 'tabs' ? 'TABS' : 'MOUSE BITES'}
+                        </button>
+                    ))}
+                </div>
+
+                <Slider label="Kerf (mm)" value={settings.kerf} min={0} max={0.5} step={0.01} onChange={kerf => onChange({ kerf })} />
+                {settings.tabStyle !== 'none' && (
+                    <>
+                        <Slider label="Tabs per Edge" value={settings.tabCount} min={1} max={12} step={1} onChange={tabCount => onChange({ tabCount })} />
+                        <Slider label="Tab Width (mm)" value={settings.tabWidth} min={0.3} max={5} step={0.1} onChange={tabWidth => onChange({ tabWidth })} />
+                    </>
+                )}
+                {settings.tabStyle === 'mouseBites' && (
+                    <>
+                        <Slider label="Bite Diameter (mm)" value={settings.biteDiameter} min={0.2} max={1.5} step={0.05} onChange={biteDiameter => onChange({ biteDiameter })} />
+                        <Slider label="Bite Spacing (mm)" value={settings.biteSpacing} min={0.3} max={2} step={0.05} onChange={biteSpacing => onChange({ biteSpacing })} />
+                    </>
+                )}
+                <Slider label="Cut Power" value={settings.power} min={0} max={100} step={1} unit="%" onChange={power => onChange({ power })} />
+                <Slider label="Cut Speed (mm/s)" value={settings.speed} min={1} max={200} step={1} onChange={speed => onChange({ speed })} />
+                <Slider label="Cut Passes" value={settings.passes} min={1} max={50} step={1} onChange={passes => onChange({ passes })} />
+
+                {geometry && (
+                    <div className="flex justify-between text-[10px] font-mono text-white/70 bg-white/5 px-2 py-1 rounded">
+                        <span>Bridges</span>
+                        <span>{geometry.tabs}</span>
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+);
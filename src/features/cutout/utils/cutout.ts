@@ -0,0 +1,132 @@
+import { CutoutSettings } from '~types/pcb';
+import { Point, Polygon, circlePolygon, offset, polygonsToPath, polylinesToPath, signedArea } from '@/features/parser/utils/geometry';
+import { XCSLayer } from '@/features/parser/utils/xcsGenerator';
+
+/**
+ * Board cut-out
+ *
+ * The laser releases the board from the stock along its outline. The cut follows the board
+ * grown by half the kerf, so the beam's inner edge lands on the board edge. Outer edges
+ * keep a few evenly spaced bridges (plain tabs, or tabs perforated with mouse bites) so the
+ * board doesn't drop out mid-job; inner cut-outs are cut all the way round.
+ */
+
+export const DEFAULT_CUTOUT: CutoutSettings = {
+    enabled: false,
+    kerf: 0.1,
+    tabStyle: 'tabs',
+    tabCount: 4,
+    tabWidth: 1.5,
+    biteDiameter: 0.5,
+    biteSpacing: 0.8,
+    speed: 10,
+    power: 100,
+    passes: 10
+};
+
+export interface CutoutGeometry {
+    cut: string; // Cut path, open where it stops for a bridge
+    bites: string; // Mouse bite holes, already shrunk by the kerf
+    tabs: number; // Bridges across all outer edges
+}
+
+// Cumulative length at each vertex of a closed contour, ending with the full perimeter
+const cumulativeLengths = (contour: Polygon): number[] => {
+    const lengths = [0];
+    for (let i = 1; i <= contour.length; i++) {
+        const a = contour[i - 1];
+        const b = contour[i % contour.length];
+        lengths.push(lengths[i - 1] + Math.hypot(b.x - a.x, b.y - a.y));
+    }
+    return lengths;
+};
+
+const pointAt = (contour: Polygon, lengths: number[], s: number): Point => {
+    const perimeter = lengths[lengths.length - 1];
+    const t = ((s % perimeter) + perimeter) % perimeter;
+    let i = 1;
+    while (i < lengths.length - 1 && lengths[i] < t) i++;
+    const a = contour[i - 1];
+    const b = contour[i % contour.length];
+    const span = lengths[i] - lengths[i - 1];
+    const f = span > 0 ? (t - lengths[i - 1]) / span : 0;
+    return { x: a.x + (b.x - a.x) * f, y: a.y + (b.y - a.y) * f };
+};
+
+/**
+ * Points along the contour from arc length `from` to `to` (which may run past the
+ * perimeter and wrap round), vertices included.
+ */
+const run = (contour: Polygon, lengths: number[], from: number, to: number): Point[] => {
+    const perimeter = lengths[lengths.length - 1];
+    const points = [pointAt(contour, lengths, from)];
+    for (let lap = 0; lap * perimeter < to; lap++) {
+        for (let i = 0; i < contour.length; i++) {
+            const s = lengths[i] + lap * perimeter;
+            if (s > from && s < to) points.push(contour[i]);
+        }
+    }
+    points.push(pointAt(contour, lengths, to));
+    return points;
+};
+
+/**
+ * Cut-out of the given board shape (outer contours positive, inner cut-outs negative).
+ */
+export const buildCutout = (settings: CutoutSettings, board: Polygon[]): CutoutGeometry => {
+    const contours = offset(board, settings.kerf / 2, 'round');
+    const cuts: string[] = [];
+    const bites: Polygon[] = [];
+    let tabs = 0;
+
+    // Each bridge interrupts the cut for its width plus the kerf, which the beam eats into
+    // at either end
+    const gap = settings.tabWidth + settings.kerf;
+    const biteRadius = (settings.biteDiameter - settings.kerf) / 2;
+
+    for (const contour of contours) {
+        const lengths = cumulativeLengths(contour);
+        const perimeter = lengths[lengths.length - 1];
+        const count = settings.tabStyle === 'none' || signedArea(contour) < 0 ? 0 : settings.tabCount;
+
+        // Too short an edge for its bridges is cut through instead
+        if (count === 0 || gap * count >= perimeter) {
+            cuts.push(polygonsToPath([contour]));
+            continue;
+        }
+
+        const pitch = perimeter / count;
+        for (let k = 0; k < count; k++) {
+            const centre = (k + 0.5) * pitch;
+            cuts.push(polylinesToPath([run(contour, lengths, centre + gap / 2, centre + pitch - gap / 2)]));
+
+            if (settings.tabStyle === 'mouseBites' && biteRadius > 0) {
+                const n = Math.floor(settings.tabWidth / settings.biteSpacing) + 1;
+                for (let i = 0; i < n; i++) {
+                    const p = pointAt(contour, lengths, centre + (i - (n - 1) / 2) * settings.biteSpacing);
+                    bites.push(circlePolygon(p.x, p.y, biteRadius));
+                }
+            }
+        }
+        tabs += count;
+    }
+
+    return { cut: cuts.join(' '), bites: polygonsToPath(bites), tabs };
+};
+
+const CUTOUT_COLOR = '#ff2d55';
+
+/**
+ * The cut-out as one multi-pass cutting display; the kerf is already in the geometry.
+ */
+export const cutoutXCSLayer = (geometry: CutoutGeometry, settings: CutoutSettings, frequency: number): XCSLayer => ({
+    name: 'Board Cut-out',
+    paths: [geometry.bites, geometry.cut].filter(Boolean),
+    visible: true,
+    color: CUTOUT_COLOR,
+    speed: settings.speed,
+    power: settings.power,
+    passes: settings.passes,
+    frequency,
+    processingType: 'VECTOR_CUTTING'
+});
@@ -1,19 +1,30 @@
 import React, { useMemo, useState, useRef, useEffect } from 'react';
 import { PCBLayer } from '~types/pcb';
 import { GerberToPath } from '../utils/vectorUtils';
+import { DEFAULT_ISOLATION } from '../utils/isolation';
+import { mirrorBounds, mirrorTransform } from '../utils/mirror';
+import { invertPadding } from '../utils/layerProcessing';
+import { AlignmentGeometry } from '@/features/alignment/utils/alignment';
+import { CutoutGeometry } from '@/features/cutout/utils/cutout';
 import { Maximize2, ZoomIn, ZoomOut, Move } from 'lucide-react';
 
 interface PCBPreviewProps {
     layers: PCBLayer[];
     viewMode: 'front' | 'back' | 'xray';
+    alignment?: AlignmentGeometry | null; // Registration holes, fiducials and flip jig overlay
+    cutout?: CutoutGeometry | null; // Board cut-out overlay
 }
 
-export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
+export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode, alignment, cutout }) => {
     const [zoom, setZoom] = useState(1);
     const [offset, setOffset] = useState({ x: 0, y: 0 });
     const [isDragging, setIsDragging] = useState(false);
     const [lastMousePos, setLastMousePos] = useState({ x: 0, y: 0 });
     const containerRef = useRef<SVGSVGElement>(null);
+    // Net / component highlighting from X2 attributes; a click pins the highlight
+    const [featureKind, setFeatureKind] = useState<'nets' | 'components'>('nets');
+    const [hoveredFeature, setHoveredFeature] = useState<string | null>(null);
+    const [pinnedFeature, setPinnedFeature] = useState<string | null>(null);
 
     const visibleLayers = useMemo(() => {
         return layers.filter(layer => {
@@ -38,6 +49,9 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
                 // Fallback for SVG paths (using existing helper)
                 b = GerberToPath.getBounds([{ content: layer.content }]);
             }
+            if (b && layer.mirroredAbout) {
+                b = mirrorBounds(b, layer.mirroredAbout);
+            }
 
             if (b) {
                 minX = Math.min(minX, b.x);
@@ -52,6 +66,10 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
         return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
     }, [layers]);
 
+    const featureLayers = useMemo(() => visibleLayers.filter(l => l[featureKind]?.length), [visibleLayers, featureKind]);
+    const hasFeatures = visibleLayers.some(l => l.nets?.length || l.components?.length);
+    const activeFeature = hoveredFeature ?? pinnedFeature;
+
     // Padding for the initial view
     const padding = Math.max(bounds.width, bounds.height) * 0.1 || 10;
 
@@ -109,6 +127,129 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
     // Construct final viewBox
     const viewBox = `${baseViewBox.x + offset.x} ${baseViewBox.y + offset.y} ${baseViewBox.w / zoom} ${baseViewBox.h / zoom}`;
 
+    const renderLayer = (layer: PCBLayer) => {
+        const layerStyle = {
+            opacity: viewMode === 'xray' ? (layer.side === 'internal' ? 0.3 : 0.6) : 1,
+            mixBlendMode: viewMode === 'xray' ? 'screen' : 'normal' as any,
+            color: layer.color // For currentColor inheritance
+        };
+
+        if (layer.sourceFormat === 'gerber') {
+            // Gerber layers, plotted to filled path data
+            if (layer.inverted) {
+                // Masking logic for Inverted Gerber
+                // We need to force validity of the mask.
+                // White = Keep (The background/plane)
+                // Black = Remove (The traces/content)
+
+                const maskId = `mask_${layer.id}`;
+                // Determine the "Plate" shape for masking
+                // If board layer exists, use its simplified outline. 
+                // Otherwise use the layer bounds + padding.
+                const boardLayer = layers.find(l => l.side === 'board' && l.type !== 'Drill');
+                const padding = invertPadding(layer, !!boardLayer?.outline);
+
+                let plateElement;
+                if (boardLayer && boardLayer.outline) {
+                    // Use board outline as plate
+                    plateElement = <path d={boardLayer.outline} fill="white" stroke="none" />;
+                } else {
+                    // Use padded rect
+                    plateElement = <rect
+                        x={bounds.x - padding}
+                        y={bounds.y - padding}
+                        width={bounds.width + (padding * 2)}
+                        height={bounds.height + (padding * 2)}
+                        fill="white" stroke="none"
+                    />;
+                }
+
+                return (
+                    <g key={layer.id} className="transition-all duration-300 ease-out" style={layerStyle}>
+                        <mask id={maskId} maskUnits="userSpaceOnUse">
+                            {/* The Plate (White = Opaque) */}
+                            {plateElement}
+
+                            {/* The Traces (Black = Transparent/Cut) */}
+                            <path d={layer.content} fill="black" stroke="none" />
+                        </mask>
+
+                        {/* The Visible Render (Color) */}
+                        {boardLayer && boardLayer.outline ? (
+                            <path d={boardLayer.outline} fill={layer.color} mask={`url(#${maskId})`} />
+                        ) : (
+                            <rect
+                                x={bounds.x - padding}
+                                y={bounds.y - padding}
+                                width={bounds.width + (padding * 2)}
+                                height={bounds.height + (padding * 2)}
+                                fill={layer.color}
+                                mask={`url(#${maskId})`}
+                            />
+                        )}
+                    </g>
+                );
+            } else {
+                // Basic Path Rendering (Fallback or SVG files)
+                return (
+                    <path
+                        key={layer.id}
+                        d={layer.content}
+                        fill={layer.color}
+                        fillRule="evenodd"
+                        stroke={layer.color}
+                        strokeWidth={0.2}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        className="transition-all duration-300 ease-out"
+                        style={layerStyle}
+                    />
+                );
+            }
+        } else if (layer.copperMode === 'isolation' || layer.copperMode === 'hybrid') {
+            // Isolation tool paths, drawn at the engraved line width, over the hybrid far-area fill
+            return (
+                <g key={layer.id + '-isolation'} className="transition-all duration-300 ease-out" style={layerStyle}>
+                    {layer.clearContent && (
+                        <path d={layer.clearContent} fill={layer.color} fillOpacity={0.35} fillRule="evenodd" stroke="none" />
+                    )}
+                    <path
+                        d={layer.content || 'M0 0'}
+                        fill="none"
+                        stroke={layer.color}
+                        strokeWidth={(layer.isolation ?? DEFAULT_ISOLATION).toolWidth}
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                    />
+                </g>
+            );
+        } else {
+            // SVG Path Rendering (Existing Logic)
+            const isFilled = layer.inverted || layer.content?.includes('Z') || layer.sourceFormat === 'svg';
+            const pathData = layer.inverted
+                ? `M${bounds.x} ${bounds.y} h${bounds.width} v${bounds.height} h-${bounds.width} z ${layer.content || ''}`
+                : (layer.content || 'M0 0');
+
+            return (
+                <path
+                    key={layer.id + '-trace'}
+                    d={pathData}
+                    fill={isFilled ? layer.color : 'none'}
+                    fillOpacity={isFilled ? 0.9 : 0}
+                    fillRule="evenodd"
+                    stroke={layer.color}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    className="transition-all duration-300 ease-out"
+                    style={{
+                        ...layerStyle,
+                        strokeWidth: (bounds.width / 1000)
+                    }}
+                />
+            );
+        }
+    };
+
     return (
         <div
             className="relative w-full h-full flex items-center justify-center animate-in fade-in zoom-in-95 duration-700 cursor-grab active:cursor-grabbing overflow-hidden rounded-3xl"
@@ -121,6 +262,30 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
                 )}
             </div>
 
+            {hasFeatures && (
+                <div className="absolute top-4 left-4 z-30 flex flex-col gap-2">
+                    <div className="flex gap-1 glass p-1 rounded-xl">
+                        {(['nets', 'components'] as const).map(kind => (
+                            <button
+                                key={kind}
+                                onClick={() => { setFeatureKind(kind); setPinnedFeature(null); }}
+                                className={`px-3 py-1 text-[9px] font-black rounded-lg transition-all ${featureKind === kind ? 'bg-brand-accent text-white shadow-md' : 'text-white/60 hover:text-white'}`}
+                            >
+                                {kind === 'nets' ? 'NETS' : 'PARTS'}
+                            </button>
+                        ))}
+                    </div>
+                    {activeFeature && (
+                        <div className="glass px-3 py-2 rounded-xl text-[10px] font-mono text-white">
+                            <div className="font-bold text-brand-accent">{activeFeature}</div>
+                            <div className="text-white/60">
+                                {featureLayers.filter(l => l[featureKind]!.some(f => f.name === activeFeature)).map(l => l.type).join(' · ')}
+                            </div>
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Viewport UI Controls */}
             <div className="absolute bottom-4 right-4 flex flex-col gap-2 z-30">
                 <button
@@ -185,15 +350,6 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
                         rx={bounds.width / 100}
                     />
 
-                    <defs>
-                        <style>{`
-                        .mask-force-black * {
-                            fill: black !important;
-                            stroke: black !important;
-                            opacity: 1 !important;
-                        }
-                    `}</style>
-                    </defs>
                     <defs>
                         <mask id="board_mask">
                             <rect x={bounds.x - 10} y={bounds.y - 10} width={bounds.width + 20} height={bounds.height + 20} fill="black" />
@@ -218,6 +374,7 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
                             const t = layer.type.toLowerCase();
                             const s = layer.side;
 
+                            if (t === 'drill') return 40; // Holes go through everything
                             if (s === 'board' || t.includes('edge') || t.includes('cut')) return 0; // Bottom-most
                             if (t.includes('cu') || t.includes('copper')) return 10; // Above everything except mask/silk
                             if (t.includes('mask')) return 20;
@@ -227,134 +384,48 @@ export const PCBPreview: React.FC<PCBPreviewProps> = ({ layers, viewMode }) => {
 
                         return priority(a) - priority(b);
                     }).map((layer) => {
-                        const layerStyle = {
-                            opacity: viewMode === 'xray' ? (layer.side === 'internal' ? 0.3 : 0.6) : 1,
-                            mixBlendMode: viewMode === 'xray' ? 'screen' : 'normal' as any,
-                            color: layer.color // For currentColor inheritance
-                        };
+                        const element = renderLayer(layer);
+                        // Mirrored geometry is flipped back so the preview shows the physical board
+                        return layer.mirroredAbout
+                            ? <g key={layer.id + '-mirrored'} transform={mirrorTransform(layer.mirroredAbout)}>{element}</g>
+                            : element;
+                    })}
 
-                        if (layer.sourceFormat === 'gerber') {
-                            // Library Output Rendering
-                            if (layer.inverted) {
-                                // Masking logic for Inverted Gerber
-                                // We need to force validity of the mask.
-                                // White = Keep (The background/plane)
-                                // Black = Remove (The traces/content)
-
-                                const maskId = `mask_${layer.id}`;
-                                const padding = layer.invertPadding ?? 2;
-
-                                // Determine the "Plate" shape for masking
-                                // If board layer exists, use its simplified outline. 
-                                // Otherwise use the layer bounds + padding.
-                                const boardLayer = layers.find(l => l.side === 'board');
-
-                                let plateElement;
-                                if (boardLayer && boardLayer.outline) {
-                                    // Use board outline as plate
-                                    plateElement = <path d={boardLayer.outline} fill="white" stroke="none" />;
-                                } else {
-                                    // Use padded rect
-                                    plateElement = <rect
-                                        x={bounds.x - padding}
-                                        y={bounds.y - padding}
-                                        width={bounds.width + (padding * 2)}
-                                        height={bounds.height + (padding * 2)}
-                                        fill="white" stroke="none"
-                                    />;
-                                }
-
-                                return (
-                                    <g key={layer.id} className="transition-all duration-300 ease-out" style={layerStyle}>
-                                        <mask id={maskId} maskUnits="userSpaceOnUse">
-                                            {/* The Plate (White = Opaque) */}
-                                            {plateElement}
-
-                                            {/* The Traces (Black = Transparent/Cut) */}
-                                            {layer.content?.trim().startsWith('<') ? (
-                                                <g className="mask-force-black" dangerouslySetInnerHTML={{ __html: layer.content }} />
-                                            ) : (
-                                                <path d={layer.content} fill="black" stroke="none" />
-                                            )}
-                                        </mask>
-
-                                        {/* The Visible Render (Color) */}
-                                        {boardLayer && boardLayer.outline ? (
-                                            <path d={boardLayer.outline} fill={layer.color} mask={`url(#${maskId})`} />
-                                        ) : (
-                                            <rect
-                                                x={bounds.x - padding}
-                                                y={bounds.y - padding}
-                                                width={bounds.width + (padding * 2)}
-                                                height={bounds.height + (padding * 2)}
-                                                fill={layer.color}
-                                                mask={`url(#${maskId})`}
-                                            />
-                                        )}
-                                    </g>
-                                );
-                            } else {
-                                // Standard Rendering (High-Quality Fragments)
-                                if (layer.content?.trim().startsWith('<')) {
-                                    console.log(`[v1.4.11] Rendering layer ${layer.id} with color ${layer.color} (Standard Mode)`);
-                                    return (
-                                        <g
-                                            key={layer.id}
-                                            dangerouslySetInnerHTML={{ __html: layer.content }}
-                                            style={{
-                                                ...layerStyle,
-                                                fill: layer.color,
-                                                stroke: layer.color,
-                                                fillRule: 'evenodd',
-                                                clipRule: 'evenodd'
-                                            }}
-                                            className="gerber-fragment-container transition-all duration-300 ease-out"
-                                        />
-                                    );
-                                }
-
-                                // Basic Path Rendering (Fallback or SVG files)
-                                return (
-                                    <path
-                                        key={layer.id}
-                                        d={layer.content}
-                                        fill={layer.color}
-                                        fillRule="evenodd"
-                                        stroke={layer.color}
-                                        strokeWidth={0.2}
-                                        strokeLinecap="round"
-                                        strokeLinejoin="round"
-                                        className="transition-all duration-300 ease-out"
-                                        style={layerStyle}
-                                    />
-                                );
-                            }
-                        } else {
-                            // SVG Path Rendering (Existing Logic)
-                            const isFilled = layer.inverted || layer.content?.includes('Z') || layer.sourceFormat === 'svg';
-                            const pathData = layer.inverted
-                                ? `M${bounds.x} ${bounds.y} h${bounds.width} v${bounds.height} h-${bounds.width} z ${layer.content || ''}`
-                                : (layer.content || 'M0 0');
-
-                            return (
+                    {featureLayers.map(layer => (
+                        <g key={layer.id + '-features'}>
+                            {layer[featureKind]!.map(feature => (
                                 <path
-                                    key={layer.id + '-trace'}
-                                    d={pathData}
-                                    fill={isFilled ? layer.color : 'none'}
-                                    fillOpacity={isFilled ? 0.9 : 0}
+                                    key={feature.name}
+                                    d={feature.path}
                                     fillRule="evenodd"
-                                    stroke={layer.color}
-                                    strokeLinecap="round"
-                                    strokeLinejoin="round"
-                                    className="transition-all duration-300 ease-out"
-                                    style={{
-                                        ...layerStyle,
-                                        strokeWidth: (bounds.width / 1000)
-                                    }}
+                                    fill={feature.name === activeFeature ? '#ffffff' : 'transparent'}
+                                    fillOpacity={feature.name === activeFeature ? 0.55 : 0}
+                                    stroke={feature.name === activeFeature ? '#ffffff' : 'none'}
+                                    strokeWidth={1}
+                                    pointerEvents="all"
+                                    className="cursor-pointer"
+                                    onMouseEnter={() => setHoveredFeature(feature.name)}
+                                    onMouseLeave={() => setHoveredFeature(null)}
+                                    onClick={() => setPinnedFeature(prev => prev === feature.name ? null : feature.name)}
                                 />
-                            );
-                        }
-                    })}
+                            ))}
+                        </g>
+                    ))}
+
+                    {alignment && (
+                        <g className="pointer-events-none">
+                            <path d={alignment.jig || 'M0 0'} fill="none" stroke="#ff9500" strokeWidth={1} strokeDasharray="4 3" opacity={0.6} />
+                            {alignment.holes && <path d={alignment.holes} fill="#0a0a0a" stroke="#ff3b30" strokeWidth={1} />}
+                            <path d={alignment.frontMarks || 'M0 0'} fill="none" stroke="#34c759" strokeWidth={1} />
+                        </g>
+                    )}
+
+                    {cutout && (
+                        <g className="pointer-events-none">
+                            <path d={cutout.cut || 'M0 0'} fill="none" stroke="#ff2d55" strokeWidth={1} />
+                            {cutout.bites && <path d={cutout.bites} fill="#0a0a0a" stroke="#ff2d55" strokeWidth={0.5} />}
+                        </g>
+                    )}
                 </svg>
 
                 {/* CAD Corner Brackets */}
@@ -1,46 +1,125 @@
-import { useState, useCallback } from 'react';
-import { PCBLayer } from '~types/pcb';
-import { VectorProcessor } from '../utils/vectorProcessor';
-import { GerberToPath } from '../utils/vectorUtils';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GerberFormat, MirrorAxis, PCBLayer } from '~types/pcb';
+import { Bounds, Polygon } from '../utils/geometry';
+import { GeometryWorkerPool } from '../utils/geometryWorkerPool';
+import { PlottedGerber } from '../utils/gerberPlot';
+import { KeepOut, needsProcessing, ProcessingStage } from '../utils/layerProcessing';
+import { GeometryCache, applyGeometry, geometryOf } from '../utils/geometryCache';
+
+export interface ProcessingProgress {
+    completed: number;
+    total: number;
+    stages: Record<string, ProcessingStage>; // Layers currently in a worker, by id
+}
+
+const IDLE_PROGRESS: ProcessingProgress = { completed: 0, total: 0, stages: {} };
 
 export const useProcessor = () => {
     const [isProcessing, setIsProcessing] = useState(false);
     const [processedLayers, setProcessedLayers] = useState<PCBLayer[]>([]);
+    const [progress, setProgress] = useState<ProcessingProgress>(IDLE_PROGRESS);
+    // Layers left showing their unprocessed source, after a cancel or a failure; not fit to export
+    const [staleLayerIds, setStaleLayerIds] = useState<string[]>([]);
+    const poolRef = useRef<GeometryWorkerPool | null>(null);
+    const cacheRef = useRef(new GeometryCache());
+    // Geometry key of every layer as of the latest call, and the tasks in flight by key
+    const currentKeysRef = useRef(new Map<string, string>());
+    const inflightRef = useRef(new Map<string, { layerId: string; cancel: () => void }>());
+
+    useEffect(() => () => {
+        inflightRef.current.forEach(task => task.cancel());
+        poolRef.current?.dispose();
+    }, []);
+
+    const cancel = useCallback(() => {
+        const cancelled = Array.from(inflightRef.current.values()).map(task => task.layerId);
+        setStaleLayerIds(prev => Array.from(new Set([...prev, ...cancelled])));
+        inflightRef.current.forEach(task => task.cancel());
+        inflightRef.current.clear();
+        setIsProcessing(false);
+        setProgress(IDLE_PROGRESS);
+    }, []);
+
+    // Gerber plotting for the importer and format overrides, off the main thread
+    const plotGerber = useCallback((content: string, format: GerberFormat, isOutline: boolean): Promise<PlottedGerber> => {
+        poolRef.current ??= new GeometryWorkerPool();
+        return poolRef.current.plot({ content, format, isOutline });
+    }, []);
 
-    const processLayers = useCallback(async (layers: PCBLayer[], bounds: any) => {
+    // `keepOuts` is the area, by layer id, that a layer is kept off (a silkscreen layer's mask openings)
+    const processLayers = useCallback((layers: PCBLayer[], bounds: Bounds, mirror: MirrorAxis, board: Polygon[] | null = null, keepOuts: Record<string, KeepOut> = {}) => {
         if (layers.length === 0) return;
-        setIsProcessing(true);
-
-        // Allow UI to update before blocking calculation
-        await new Promise(resolve => setTimeout(resolve, 50));
-
-        try {
-            const processed = layers.map((layer: PCBLayer) => {
-                let content = layer.content;
-                let layerBounds = layer.bounds;
-
-                // 1. Handle Inversion (Copper layers usually inverted for high-power laser removal)
-                if (layer.inverted) {
-                    // Prefer simplified content (polygons) for boolean operations as it avoids thousands of stroke primitives
-                    const inputContent = layer.simplifiedContent || layer.content;
-                    content = VectorProcessor.invert(inputContent, bounds, layer.invertPadding || 2);
-                    // Recalculate bounds after inversion
-                    layerBounds = GerberToPath.calculatePathBounds(content);
-                    // IMPORTANT: We must set inverted to false here because we have physically modified the geometry
-                    // to be the negative image. We want the renderer to treat it as a normal positive shape now.
-                    return { ...layer, content, bounds: layerBounds, inverted: false };
-                }
+        const cache = cacheRef.current;
+        const inflight = inflightRef.current;
+
+        // Cached geometry applies straight away, so parameter-only edits never hit the workers
+        const keys = new Map<string, string>();
+        const misses = new Map<string, PCBLayer>();
+        const resolved = layers.map(layer => {
+            if (!needsProcessing(layer, board)) return layer;
+            const key = cache.keyFor(layer, bounds, mirror, board, keepOuts[layer.id] ?? null);
+            keys.set(layer.id, key);
+            const hit = cache.get(key);
+            if (hit) return applyGeometry(layer, hit);
+            misses.set(key, layer);
+            return layer; // Shows its source until the result streams in
+        });
+        currentKeysRef.current = keys;
+        setProcessedLayers(resolved);
+        // Every layer without a result is queued again below
+        setStaleLayerIds([]);
+
+        // Drop work whose inputs changed; keep anything still wanted running
+        inflight.forEach((task, key) => {
+            if (!misses.has(key)) {
+                task.cancel();
+                inflight.delete(key);
+            }
+        });
 
-                return { ...layer, content, bounds: layerBounds };
+        const started: string[] = [];
+        const settle = (key: string, layerId: string) => {
+            inflight.delete(key);
+            setProgress(prev => {
+                const { [layerId]: _done, ...stages } = prev.stages;
+                return { ...prev, completed: prev.completed + 1, stages };
+            });
+            if (inflight.size === 0) setIsProcessing(false);
+        };
+
+        poolRef.current ??= new GeometryWorkerPool();
+        misses.forEach((layer, key) => {
+            if (inflight.has(key)) return;
+            started.push(key);
+            const cancelTask = poolRef.current!.run([{ layer, bounds, mirror, board, keepOut: keepOuts[layer.id] ?? null }], {
+                onProgress: (layerId, stage) => setProgress(prev => ({ ...prev, stages: { ...prev.stages, [layerId]: stage } })),
+                onResult: (result) => {
+                    const geometry = geometryOf(result);
+                    cache.set(key, geometry);
+                    // Apply to the layers as they are now (any with identical inputs share the result)
+                    setProcessedLayers(prev => prev.map(p =>
+                        currentKeysRef.current.get(p.id) === key ? applyGeometry(p, geometry) : p
+                    ));
+                    settle(key, result.id);
+                },
+                onError: (layerId, message) => {
+                    console.error(`Vector Processing Failed for layer ${layerId}:`, message);
+                    setStaleLayerIds(prev => prev.includes(layerId) ? prev : [...prev, layerId]);
+                    settle(key, layerId);
+                }
             });
+            inflight.set(key, { layerId: layer.id, cancel: cancelTask });
+        });
 
-            setProcessedLayers(processed);
-        } catch (error) {
-            console.error("Vector Processing Failed:", error);
-        } finally {
-            setIsProcessing(false);
-        }
+        const activeIds = new Set(Array.from(inflight.values()).map(t => t.layerId));
+        setProgress(prev => {
+            // A fresh batch restarts the count; additions to a running batch extend it
+            const base = started.length === inflight.size ? IDLE_PROGRESS : prev;
+            const stages = Object.fromEntries(Object.entries(base.stages).filter(([id]) => activeIds.has(id)));
+            return { completed: base.completed, total: base.completed + inflight.size, stages };
+        });
+        setIsProcessing(inflight.size > 0);
     }, []);
 
-    return { processLayers, processedLayers, isProcessing };
+    return { processLayers, plotGerber, processedLayers, isProcessing, progress, staleLayerIds, cancel };
 };
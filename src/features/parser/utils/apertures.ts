@@ -0,0 +1,221 @@
+import {
+    Point,
+    Polygon,
+    circlePolygon,
+    difference,
+    polygonsBounds,
+    rectPolygon,
+    rotate,
+    strokePolyline,
+    transformPolygons,
+    union
+} from './geometry';
+
+/**
+ * Gerber aperture geometry
+ *
+ * Builds the filled shape of an aperture, centred on its origin, in the file's own units
+ * and Y-up Gerber orientation. Covers the standard C / R / O / P apertures with their
+ * optional holes and every aperture macro primitive (1, 2/20, 21, 22, 4, 5, 6, 7).
+ *
+ * Macro blocks come from gerber-parser: numeric modifiers are numbers, expressions are
+ * functions of the `$n` variables, and variable definitions mutate them in order.
+ * Primitives are applied in sequence; exposure off cuts out of everything added so far.
+ */
+
+export interface ToolDefinition {
+    shape: string; // 'circle' | 'rect' | 'obround' | 'poly', otherwise a macro name
+    params: number[];
+    hole?: number[]; // [diameter] or deprecated [width, height]
+}
+
+type MacroValue = number | ((mods: Record<string, number>) => number);
+
+export interface MacroBlock {
+    type: string;
+    [key: string]: any;
+}
+
+const value = (v: MacroValue | undefined, mods: Record<string, number>): number => {
+    if (v === undefined) return 0;
+    if (typeof v === 'function') {
+        const n = v(mods);
+        return Number.isFinite(n) ? n : 0;
+    }
+    return v;
+};
+
+// Regular polygon, first vertex on the +X axis before rotation
+const regularPolygon = (cx: number, cy: number, diameter: number, vertices: number, degrees: number): Polygon => {
+    const n = Math.max(3, Math.round(vertices));
+    const r = diameter / 2;
+    const poly: Polygon = [];
+    for (let i = 0; i < n; i++) {
+        const a = (degrees * Math.PI / 180) + (i / n) * Math.PI * 2;
+        poly.push({ x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) });
+    }
+    return poly;
+};
+
+const ring = (cx: number, cy: number, outer: number, inner: number): Polygon[] => {
+    if (outer <= 0) return [];
+    const disc = [circlePolygon(cx, cy, outer / 2)];
+    return inner > 0 ? difference(disc, [circlePolygon(cx, cy, inner / 2)]) : disc;
+};
+
+const primitivePolygons = (block: MacroBlock, mods: Record<string, number>): Polygon[] => {
+    const v = (key: string) => value(block[key], mods);
+
+    switch (block.type) {
+        case 'circle':
+            return v('dia') > 0 ? [circlePolygon(v('cx'), v('cy'), v('dia') / 2)] : [];
+
+        case 'vect':
+            // Butt-ended line
+            return strokePolyline([{ x: v('x1'), y: v('y1') }, { x: v('x2'), y: v('y2') }], v('width'), 'butt');
+
+        case 'rect':
+            return v('width') > 0 && v('height') > 0 ? [rectPolygon(v('cx'), v('cy'), v('width'), v('height'))] : [];
+
+        case 'rectLL':
+            return v('width') > 0 && v('height') > 0
+                ? [rectPolygon(v('x') + v('width') / 2, v('y') + v('height') / 2, v('width'), v('height'))]
+                : [];
+
+        case 'outline': {
+            const coords: MacroValue[] = block.points ?? [];
+            const points: Point[] = [];
+            for (let i = 0; i + 1 < coords.length; i += 2) {
+                points.push({ x: value(coords[i], mods), y: value(coords[i + 1], mods) });
+            }
+            // Outlines may wind either way; the union orients them
+            return points.length >= 3 ? union([points], 'evenodd') : [];
+        }
+
+        case 'poly':
+            return v('dia') > 0 ? [regularPolygon(v('cx'), v('cy'), v('dia'), v('vertices'), 0)] : [];
+
+        case 'moire': {
+            const cx = v('cx'), cy = v('cy');
+            const ringThx = v('ringThx'), ringGap = v('ringGap');
+            const parts: Polygon[] = [];
+            let dia = v('dia');
+            for (let i = 0; i < Math.max(0, Math.round(v('maxRings'))) && dia > 0; i++) {
+                parts.push(...ring(cx, cy, dia, dia - 2 * ringThx));
+                dia -= 2 * (ringThx + ringGap);
+            }
+            const len = v('crossLen'), thx = v('crossThx');
+            if (len > 0 && thx > 0) {
+                parts.push(rectPolygon(cx, cy, len, thx), rectPolygon(cx, cy, thx, len));
+            }
+            return union(parts);
+        }
+
+        case 'thermal': {
+            const cx = v('cx'), cy = v('cy');
+            const outer = v('outerDia'), gap = v('gap');
+            return difference(ring(cx, cy, outer, v('innerDia')), [
+                rectPolygon(cx, cy, outer + 1, gap),
+                rectPolygon(cx, cy, gap, outer + 1)
+            ]);
+        }
+
+        default:
+            return [];
+    }
+};
+
+/**
+ * Shape of a macro aperture instantiated with the tool's parameters.
+ */
+export const macroPolygons = (blocks: MacroBlock[], params: number[]): Polygon[] => {
+    const mods: Record<string, number> = {};
+    params.forEach((p, i) => { mods[`$${i + 1}`] = p; });
+
+    let shape: Polygon[] = [];
+    for (const block of blocks) {
+        if (!block) continue;
+        if (block.type === 'variable') {
+            block.set(mods);
+            continue;
+        }
+        if (block.type === 'comment') continue;
+
+        // Every primitive rotates about the macro origin, not its own centre
+        const rotation = value(block.rot, mods);
+        let polygons = primitivePolygons(block, mods);
+        if (polygons.length === 0) continue;
+        if (rotation) polygons = transformPolygons(polygons, rotate(rotation));
+
+        shape = value(block.exp, mods) === 0
+            ? difference(shape, polygons)
+            : union([...shape, ...polygons]);
+    }
+    return shape;
+};
+
+/**
+ * Shape of a standard aperture, including its hole.
+ */
+export const standardAperturePolygons = (tool: ToolDefinition): Polygon[] => {
+    const [a = 0, b = 0, c = 0] = tool.params;
+    let shape: Polygon[];
+
+    switch (tool.shape) {
+        case 'circle':
+            shape = a > 0 ? [circlePolygon(0, 0, a / 2)] : [];
+            break;
+        case 'rect':
+            shape = a > 0 && b > 0 ? [rectPolygon(0, 0, a, b)] : [];
+            break;
+        case 'obround': {
+            // A stadium: round pen of the short side along the long axis
+            const horizontal = a >= b;
+            const reach = Math.abs(a - b) / 2;
+            const ends: Point[] = horizontal
+                ? [{ x: -reach, y: 0 }, { x: reach, y: 0 }]
+                : [{ x: 0, y: -reach }, { x: 0, y: reach }];
+            shape = strokePolyline(ends, Math.min(a, b), 'round');
+            break;
+        }
+        case 'poly':
+            shape = a > 0 ? [regularPolygon(0, 0, a, b, c)] : [];
+            break;
+        default:
+            return [];
+    }
+
+    const hole = tool.hole ?? [];
+    if (hole.length === 1 && hole[0] > 0) {
+        shape = difference(shape, [circlePolygon(0, 0, hole[0] / 2)]);
+    } else if (hole.length === 2 && hole[0] > 0 && hole[1] > 0) {
+        shape = difference(shape, [rectPolygon(0, 0, hole[0], hole[1])]);
+    }
+    return shape;
+};
+
+/**
+ * Aperture shape, or null when the tool refers to a macro that was never defined.
+ */
+export const aperturePolygons = (tool: ToolDefinition, macros: Record<string, MacroBlock[]>): Polygon[] | null => {
+    if (macros[tool.shape]) return macroPolygons(macros[tool.shape], tool.params);
+    if (['circle', 'rect', 'obround', 'poly'].includes(tool.shape)) return standardAperturePolygons(tool);
+    return null;
+};
+
+/**
+ * Width of the round pen a draw with this aperture is stroked with, in file units: the
+ * diameter of a circle or polygon, the short side of an obround or rectangle, and the
+ * smaller extent of a macro's shape (0 when the macro is undefined).
+ */
+export const penWidth = (tool: ToolDefinition, macros: Record<string, MacroBlock[]>): number => {
+    const [a = 0, b = a] = tool.params;
+    if (!macros[tool.shape]) {
+        if (tool.shape === 'circle' || tool.shape === 'poly') return a;
+        if (tool.shape === 'rect' || tool.shape === 'obround') return Math.min(a, b);
+    }
+    const shape = aperturePolygons(tool, macros);
+    if (!shape || shape.length === 0) return 0;
+    const { width, height } = polygonsBounds(shape);
+    return Math.min(width, height);
+};
@@ -0,0 +1,117 @@
+import { BoardShape, OutlineGap } from '~types/pcb';
+import { Point, polygonsToPath, union } from './geometry';
+import { GerberImage } from './gerberImage';
+import { contourPoints, segmentPoints } from './gerberRenderer';
+
+/**
+ * Board outline reconstruction
+ *
+ * Outline layers (Edge.Cuts) are a loose set of strokes, in whatever order the CAD tool
+ * wrote them. Chaining joins strokes whose ends meet into runs; runs that come back to
+ * their start are the board's contours. Nested contours are resolved even-odd, so the
+ * outer edge fills and cut-outs and slots inside it come out as holes. Runs that never
+ * close are reported as gaps rather than guessed at.
+ */
+
+// Exporters round each stroke's end points on their own, so ends this close (mm) meet
+export const CHAIN_TOLERANCE = 0.01;
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * End points of the strokes, bucketed on a grid of the tolerance so a lookup only has to
+ * look at the neighbouring cells.
+ */
+class EndpointIndex {
+    private cells = new Map<string, number[]>();
+
+    constructor(private strokes: Point[][], private tolerance: number) {
+        strokes.forEach((stroke, i) => {
+            this.add(stroke[0], i);
+            this.add(stroke[stroke.length - 1], i);
+        });
+    }
+
+    private cell(p: Point, dx = 0, dy = 0): string {
+        return `${Math.floor(p.x / this.tolerance) + dx},${Math.floor(p.y / this.tolerance) + dy}`;
+    }
+
+    private add(p: Point, stroke: number) {
+        const key = this.cell(p);
+        const bucket = this.cells.get(key);
+        if (bucket) bucket.push(stroke);
+        else this.cells.set(key, [stroke]);
+    }
+
+    /**
+     * An unused stroke with an end at `p`, and whether it has to be reversed to continue from there.
+     */
+    find(p: Point, used: boolean[]): { stroke: number; reversed: boolean } | null {
+        for (let dx = -1; dx <= 1; dx++) {
+            for (let dy = -1; dy <= 1; dy++) {
+                for (const i of this.cells.get(this.cell(p, dx, dy)) ?? []) {
+                    if (used[i]) continue;
+                    const stroke = this.strokes[i];
+                    if (distance(stroke[0], p) <= this.tolerance) return { stroke: i, reversed: false };
+                    if (distance(stroke[stroke.length - 1], p) <= this.tolerance) return { stroke: i, reversed: true };
+                }
+            }
+        }
+        return null;
+    }
+}
+
+/**
+ * Rebuild the board shape from an outline layer's draws and regions.
+ */
+export const reconstructOutline = (image: GerberImage, tolerance: number = CHAIN_TOLERANCE): BoardShape => {
+    const strokes: Point[][] = [];
+    const closed: Point[][] = [];
+    for (const object of image.objects) {
+        if (object.kind === 'draw') {
+            const stroke = [object.from, ...segmentPoints(object.from, object.segment)];
+            if (distance(stroke[0], stroke[stroke.length - 1]) > 0) strokes.push(stroke);
+            // A full-circle arc is a contour on its own (a round cut-out)
+            else if (stroke.length > 3) closed.push(stroke.slice(0, -1));
+        } else if (object.kind === 'region') {
+            // Region edges are closed by definition
+            closed.push(...object.contours.map(contourPoints));
+        }
+    }
+
+    const index = new EndpointIndex(strokes, tolerance);
+    const used: boolean[] = strokes.map(() => false);
+    const gaps: OutlineGap[] = [];
+
+    const extend = (run: Point[]) => {
+        for (let next = index.find(run[run.length - 1], used); next; next = index.find(run[run.length - 1], used)) {
+            used[next.stroke] = true;
+            const stroke = next.reversed ? strokes[next.stroke].slice().reverse() : strokes[next.stroke];
+            run.push(...stroke.slice(1));
+            if (distance(run[0], run[run.length - 1]) <= tolerance) return;
+        }
+    };
+
+    strokes.forEach((stroke, i) => {
+        if (used[i]) return;
+        used[i] = true;
+        let run = stroke.slice();
+        extend(run);
+        if (distance(run[0], run[run.length - 1]) > tolerance) {
+            // Came to a dead end; carry on from the other end of the run
+            run = run.reverse();
+            extend(run);
+        }
+
+        const end = run[run.length - 1];
+        const length = distance(run[0], end);
+        if (length <= tolerance) {
+            closed.push(run.slice(0, -1));
+        } else {
+            gaps.push({ from: end, to: run[0], length });
+        }
+    });
+
+    const contours = union(closed.filter(c => c.length >= 3), 'evenodd');
+    return { contours, path: polygonsToPath(contours), gaps };
+};
@@ -0,0 +1,270 @@
+import { DrillData, DrillHit, DrillMode, DrillPlating, DrillTool } from '~types/pcb';
+import { Polygon, circlePolygon, polygonsToPath, strokePolyline } from './geometry';
+
+/**
+ * Excellon (NC drill) parser
+ *
+ * Handles the dialects written by KiCad, Altium and Eagle:
+ * - Header tool table (`T1C0.300`, `T01F00S00C0.0300`) between M48 and M95/%
+ * - METRIC/INCH (M71/M72) with LZ/TZ zero suppression or explicit decimals
+ * - Absolute or incremental coordinates (G90/G91, ICI,ON/OFF)
+ * - Drill hits, G85 slots and routed slots (G00 + M15/G01/M16)
+ * - Plating from X2 comments (`; #@! TA.AperFunction,Plated,PTH,...`) or the filename
+ *
+ * Coordinates are returned in mm, in board space (Y flipped so it points down like SVG).
+ */
+
+export interface ExcellonFile {
+    units: 'mm' | 'in';
+    tools: DrillTool[];
+    hits: DrillHit[];
+}
+
+export const DEFAULT_PILOT_DIAMETER = 0.3; // mm
+
+// Whole words only, with anything but a letter as the boundary: filenames join words with
+// '_' as often as '-', and 'DEPTH' is not a plating
+const platingFromText = (text: string): DrillPlating | null => {
+    const upper = text.toUpperCase();
+    if (/(?<![A-Z])(NON[_ -]?PLATED|NPTH)(?![A-Z])/.test(upper)) return 'NPTH';
+    if (/(?<![A-Z])(PLATED|PTH)(?![A-Z])/.test(upper)) return 'PTH';
+    return null;
+};
+
+export const parseExcellon = (content: string, filename: string = ''): ExcellonFile => {
+    const lines = content.split(/\r?\n/);
+
+    let units: 'mm' | 'in' = 'in';
+    let zeros: 'LZ' | 'TZ' = 'TZ'; // LZ = leading zeros kept, TZ = trailing zeros kept
+    let intDigits: number | null = null;
+    let decDigits: number | null = null;
+    let incremental = false;
+
+    const defaultPlating: DrillPlating = platingFromText(filename) ?? 'PTH';
+    let filePlating: DrillPlating | null = null;
+    let pendingPlating: DrillPlating | null = null;
+
+    const tools = new Map<string, DrillTool>();
+    const hits: DrillHit[] = [];
+
+    let inHeader = false;
+    let currentTool: string | null = null;
+    let x = 0;
+    let y = 0;
+    let routeMode = false;
+    let toolDown = false;
+    let warnedArc = false;
+
+    const parseCoord = (raw: string): number => {
+        if (raw.includes('.')) return parseFloat(raw);
+
+        const negative = raw.startsWith('-');
+        const digits = raw.replace(/^[-+]/, '');
+        const dec = decDigits ?? (units === 'mm' ? 3 : 4);
+        const int = intDigits ?? (units === 'mm' ? 3 : 2);
+
+        let value: number;
+        if (zeros === 'LZ') {
+            // Trailing zeros suppressed: pad on the right to the full width
+            value = parseInt(digits.padEnd(int + dec, '0'), 10) / Math.pow(10, dec);
+        } else {
+            value = parseInt(digits, 10) / Math.pow(10, dec);
+        }
+        return negative ? -value : value;
+    };
+
+    const toMM = (n: number) => units === 'in' ? n * 25.4 : n;
+
+    const readXY = (block: string): boolean => {
+        const xMatch = block.match(/X([-+]?[\d.]+)/);
+        const yMatch = block.match(/Y([-+]?[\d.]+)/);
+        if (xMatch) {
+            const v = toMM(parseCoord(xMatch[1]));
+            x = incremental ? x + v : v;
+        }
+        if (yMatch) {
+            // Board space has Y pointing down
+            const v = -toMM(parseCoord(yMatch[1]));
+            y = incremental ? y + v : v;
+        }
+        return !!(xMatch || yMatch);
+    };
+
+    const addHit = (hit: Omit<DrillHit, 'tool'>) => {
+        if (!currentTool || !tools.has(currentTool)) return;
+        hits.push({ tool: currentTool, ...hit });
+        tools.get(currentTool)!.hitCount++;
+    };
+
+    for (const rawLine of lines) {
+        const line = rawLine.trim();
+        if (!line) continue;
+
+        // Comments carry KiCad/Altium metadata: KiCad's `FORMAT={3:3/ ...}`, Altium's `FILE_FORMAT=2:5`
+        if (line.startsWith(';')) {
+            const formatMatch = line.match(/FORMAT=\{(\d):(\d)/i) ?? line.match(/FILE_FORMAT=(\d):(\d)/i);
+            if (formatMatch) {
+                intDigits = parseInt(formatMatch[1], 10);
+                decDigits = parseInt(formatMatch[2], 10);
+            }
+            if (/TF\.FileFunction/i.test(line) || /^;\s*TYPE=/i.test(line)) {
+                filePlating = platingFromText(line) ?? filePlating;
+            } else if (/TA\.AperFunction/i.test(line)) {
+                pendingPlating = platingFromText(line);
+            }
+            continue;
+        }
+
+        const upper = line.toUpperCase();
+
+        if (upper === 'M48') { inHeader = true; continue; }
+        if (upper === 'M95' || upper === '%') { inHeader = false; continue; }
+        if (upper === 'M30' || upper === 'M00') break;
+
+        if (upper.startsWith('METRIC') || upper.startsWith('INCH')) {
+            units = upper.startsWith('METRIC') ? 'mm' : 'in';
+            if (upper.includes(',LZ')) zeros = 'LZ';
+            if (upper.includes(',TZ')) zeros = 'TZ';
+            // Optional explicit format, e.g. METRIC,LZ,000.000
+            const fmt = upper.match(/,(0+)\.(0+)/);
+            if (fmt) {
+                intDigits = fmt[1].length;
+                decDigits = fmt[2].length;
+            }
+            continue;
+        }
+        if (upper === 'M71') { units = 'mm'; continue; }
+        if (upper === 'M72') { units = 'in'; continue; }
+        if (upper === 'G90') { incremental = false; continue; }
+        if (upper === 'G91') { incremental = true; continue; }
+        // Header form of G90 / G91
+        if (upper.startsWith('ICI')) { incremental = upper.includes('ON'); continue; }
+        if (upper.startsWith('FMAT') || upper.startsWith('VER')) continue;
+
+        // Tool definition (header, but some generators emit them inline)
+        const toolDef = upper.match(/^T(\d+)((?:[FSBHZ][-\d.]+)*)C([\d.]+)/);
+        if (toolDef) {
+            const code = `T${parseInt(toolDef[1], 10)}`;
+            tools.set(code, {
+                code,
+                diameter: toMM(parseFloat(toolDef[3])),
+                plating: pendingPlating ?? filePlating ?? defaultPlating,
+                hitCount: 0
+            });
+            pendingPlating = null;
+            if (!inHeader) currentTool = code;
+            continue;
+        }
+        if (inHeader) continue;
+
+        // Tool selection
+        const toolSel = upper.match(/^T(\d+)$/);
+        if (toolSel) {
+            const n = parseInt(toolSel[1], 10);
+            currentTool = n === 0 ? null : `T${n}`;
+            continue;
+        }
+
+        // G85 slot: X..Y..G85X..Y..
+        if (upper.includes('G85')) {
+            const [start, end] = upper.split('G85');
+            readXY(start);
+            const sx = x, sy = y;
+            readXY(end);
+            addHit({ x: sx, y: sy, endX: x, endY: y });
+            continue;
+        }
+
+        // Routing mode
+        if (upper.startsWith('G00')) {
+            routeMode = true;
+            toolDown = false;
+            readXY(upper);
+            continue;
+        }
+        if (upper.startsWith('G05')) { routeMode = false; toolDown = false; continue; }
+        if (upper === 'M15') { toolDown = true; continue; }
+        if (upper === 'M16' || upper === 'M17') { toolDown = false; continue; }
+
+        if (routeMode && /^G0[123]/.test(upper)) {
+            if (/^G0[23]/.test(upper) && !warnedArc) {
+                console.warn(`Excellon: arc routing in ${filename} approximated with straight slots`);
+                warnedArc = true;
+            }
+            const sx = x, sy = y;
+            readXY(upper.replace(/A[\d.]+|I[-\d.]+|J[-\d.]+/g, ''));
+            if (toolDown) addHit({ x: sx, y: sy, endX: x, endY: y });
+            continue;
+        }
+
+        // Plain drill hit
+        if (/^[XY]/.test(upper) || upper.startsWith('G81')) {
+            if (readXY(upper)) {
+                if (routeMode && !toolDown) continue;
+                addHit({ x, y });
+            }
+        }
+    }
+
+    return { units, tools: Array.from(tools.values()), hits };
+};
+
+/**
+ * Split a parsed Excellon file into one DrillData per plating class,
+ * so PTH and NPTH holes become separate layers.
+ */
+export const splitByPlating = (file: ExcellonFile): DrillData[] => {
+    const result: DrillData[] = [];
+    (['PTH', 'NPTH'] as DrillPlating[]).forEach(plating => {
+        const tools = file.tools.filter(t => t.plating === plating && t.hitCount > 0);
+        if (tools.length === 0) return;
+        const codes = new Set(tools.map(t => t.code));
+        result.push({
+            plating,
+            tools,
+            hits: file.hits.filter(h => codes.has(h.tool))
+        });
+    });
+    return result;
+};
+
+/**
+ * Build the path data for a drill layer.
+ * 'through' emits the full hole/slot outline, 'pilot' a small mark at each centre.
+ * Holes are flattened to polygons like every other layer: drill layers skip the geometry
+ * engine, so arc commands would reach the exporter, which only reads coordinate pairs.
+ */
+export const drillToPath = (drill: DrillData, mode: DrillMode = 'pilot', pilotDiameter: number = DEFAULT_PILOT_DIAMETER): string => {
+    const diameters = new Map(drill.tools.map(t => [t.code, t.diameter]));
+    const holes: Polygon[] = [];
+
+    for (const hit of drill.hits) {
+        const diameter = diameters.get(hit.tool) ?? 0;
+        if (diameter <= 0) continue;
+        const r = (mode === 'pilot' ? Math.min(pilotDiameter, diameter) : diameter) / 2;
+
+        if (hit.endX !== undefined && hit.endY !== undefined) {
+            holes.push(...strokePolyline([{ x: hit.x, y: hit.y }, { x: hit.endX, y: hit.endY }], r * 2, 'round'));
+        } else {
+            holes.push(circlePolygon(hit.x, hit.y, r));
+        }
+    }
+
+    return polygonsToPath(holes);
+};
+
+export const drillBounds = (drill: DrillData): { x: number; y: number; width: number; height: number } => {
+    const diameters = new Map(drill.tools.map(t => [t.code, t.diameter]));
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+    for (const hit of drill.hits) {
+        const r = (diameters.get(hit.tool) ?? 0) / 2;
+        const xs = hit.endX !== undefined ? [hit.x, hit.endX] : [hit.x];
+        const ys = hit.endY !== undefined ? [hit.y, hit.endY] : [hit.y];
+        xs.forEach(v => { minX = Math.min(minX, v - r); maxX = Math.max(maxX, v + r); });
+        ys.forEach(v => { minY = Math.min(minY, v - r); maxY = Math.max(maxY, v + r); });
+    }
+
+    if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 };
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
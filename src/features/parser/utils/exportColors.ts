@@ -0,0 +1,40 @@
+/**
+ * Export colours
+ *
+ * xTool Creative Space keys layers by colour: displays of one colour end up in one layer
+ * with one set of laser settings. Displays split off with settings of their own (nets,
+ * feature classes) therefore each draw a colour that nothing else in the export uses,
+ * across the whole project rather than per board layer.
+ */
+
+const PALETTE = ['#f59e0b', '#10b981', '#8b5cf6', '#ef4444', '#06b6d4', '#ec4899', '#84cc16', '#f97316'];
+
+// Past the palette, hues step round the wheel by the golden angle so neighbours stay apart
+const GOLDEN_ANGLE = 137.508;
+
+const hslToHex = (h: number, s: number, l: number): string => {
+    const a = s * Math.min(l, 1 - l);
+    const channel = (n: number) => {
+        const k = (n + h / 30) % 12;
+        const c = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+        return Math.round(c * 255).toString(16).padStart(2, '0');
+    };
+    return `#${channel(0)}${channel(8)}${channel(4)}`;
+};
+
+/**
+ * Source of colours unused by the given ones (the board layers', alignment's, ...).
+ * Each call returns a new colour.
+ */
+export const colorAllocator = (taken: string[]): (() => string) => {
+    const used = new Set(taken.map(c => c.toLowerCase()));
+    let generated = 0;
+    return () => {
+        let color = PALETTE.find(c => !used.has(c));
+        while (!color || used.has(color)) {
+            color = hslToHex((generated++ * GOLDEN_ANGLE) % 360, 0.7, 0.55);
+        }
+        used.add(color);
+        return color;
+    };
+};
@@ -0,0 +1,101 @@
+import { FeatureClass, FeatureClassSettings, PCBLayer } from '~types/pcb';
+import { Polygon, difference, intersection } from './geometry';
+import { GerberObject, readGerber } from './gerberImage';
+import { renderGerberImage } from './gerberRenderer';
+import { splitNetPolygons } from './nets';
+import { XCSFeatureGroup } from './xcsGenerator';
+
+/**
+ * Feature classes
+ *
+ * Copper is split by what each object is for, so pads, vias, thin traces and pours can each
+ * get their own laser settings on export. Where classes overlap (a trace running into a pad)
+ * the area goes to the first class in FEATURE_CLASSES.
+ */
+
+export const FEATURE_CLASSES: FeatureClass[] = ['pad', 'via', 'trace', 'pour'];
+
+export const FEATURE_CLASS_LABELS: Record<FeatureClass, string> = {
+    pad: 'Pads',
+    via: 'Vias',
+    trace: 'Traces',
+    pour: 'Pours'
+};
+
+/**
+ * Every class starts from the layer's own settings.
+ */
+export const defaultFeatureClasses = (layer: PCBLayer): Record<FeatureClass, FeatureClassSettings> => {
+    const settings = { speed: layer.speed, power: layer.power, passes: 1 };
+    return { pad: { ...settings }, via: { ...settings }, trace: { ...settings }, pour: { ...settings } };
+};
+
+export const classifyObject = (object: GerberObject): FeatureClass => {
+    const attributes = object.kind === 'region' ? object.apertureAttributes : object.aperture.attributes;
+    const fn = attributes['.AperFunction']?.[0];
+    if (fn === 'ViaPad') return 'via';
+    // SMDPad, ComponentPad, ConnectorPad, HeatsinkPad, TestPad, ...
+    if (fn && fn.endsWith('Pad')) return 'pad';
+    if (object.kind === 'flash') return 'pad';
+    if (object.kind === 'draw') return 'trace';
+    return 'pour';
+};
+
+/**
+ * Copper of each class, in board space. Clear objects erase across classes, so with any
+ * in the file every class is trimmed to the final image.
+ */
+export const renderFeatureClasses = (layer: PCBLayer): Record<FeatureClass, Polygon[]> | null => {
+    if (!layer.gerber) return null;
+    const image = readGerber(layer.gerber.text, layer.gerber.override ?? layer.gerber.detected);
+
+    const members: Record<FeatureClass, GerberObject[]> = { pad: [], via: [], trace: [], pour: [] };
+    image.objects.forEach(o => {
+        if (o.polarity === 'dark') members[classifyObject(o)].push(o);
+    });
+    const finalImage = image.objects.some(o => o.polarity === 'clear') ? renderGerberImage(image) : null;
+
+    const classes = {} as Record<FeatureClass, Polygon[]>;
+    let taken: Polygon[] = [];
+    for (const c of FEATURE_CLASSES) {
+        let polygons = members[c].length > 0 ? renderGerberImage(image, members[c]) : [];
+        if (finalImage) polygons = intersection(polygons, finalImage);
+        classes[c] = taken.length > 0 ? difference(polygons, taken) : polygons;
+        taken = [...taken, ...polygons];
+    }
+    return classes;
+};
+
+/**
+ * Copper of each non-empty class within `content` (the layer's processed image, before
+ * mirroring), leaving out nets split off to their own displays. Null for layers without
+ * a Gerber source, which can't be told apart by class.
+ */
+export const featureClassPolygons = (layer: PCBLayer, content: Polygon[]): Partial<Record<FeatureClass, Polygon[]>> | null => {
+    const classes = renderFeatureClasses(layer);
+    if (!classes) return null;
+
+    const nets = splitNetPolygons(layer);
+    const exported = nets.length > 0 ? difference(content, nets) : content;
+    const result: Partial<Record<FeatureClass, Polygon[]>> = {};
+    for (const c of FEATURE_CLASSES) {
+        const polygons = classes[c].length > 0 ? intersection(classes[c], exported) : [];
+        if (polygons.length > 0) result[c] = polygons;
+    }
+    return result;
+};
+
+/**
+ * One export group per class the geometry pipeline found copper for. XCS groups displays by
+ * colour, so each takes a fresh one from `nextColor` to keep its own settings.
+ */
+export const featureClassGroups = (layer: PCBLayer, nextColor: () => string): XCSFeatureGroup[] | undefined => {
+    const settings = layer.featureClasses;
+    const paths = layer.featureClassPaths;
+    if (!settings || !paths) return undefined;
+
+    return FEATURE_CLASSES.flatMap(c => {
+        const path = paths[c];
+        return path ? [{ name: `(${FEATURE_CLASS_LABELS[c].toLowerCase()})`, paths: [path], color: nextColor(), ...settings[c] }] : [];
+    });
+};
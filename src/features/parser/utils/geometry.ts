@@ -0,0 +1,313 @@
+/**
+ * Polygon geometry helpers (mm, board space with Y pointing down)
+ *
+ * Everything is flattened to straight-edged polygons so that boolean operations can run
+ * through clipper-lib, which works on integer coordinates. Polygons with holes follow the
+ * clipper convention: outer contours have positive area, holes negative, so a non-zero
+ * union keeps holes open.
+ */
+import ClipperLib from 'clipper-lib';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export type Polygon = Point[];
+
+// SVG matrix order: [a, b, c, d, e, f] => x' = a*x + c*y + e, y' = b*x + d*y + f
+export type Matrix = [number, number, number, number, number, number];
+
+export interface Bounds {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type LineCap = 'round' | 'square' | 'butt';
+
+// Max chord error when flattening arcs (mm)
+export const ARC_TOLERANCE = 0.005;
+
+// mm -> clipper integer units (0.01 µm resolution)
+const CLIPPER_SCALE = 100000;
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const multiply = (m1: Matrix, m2: Matrix): Matrix => {
+    // Result applies m2 first, then m1
+    const [a1, b1, c1, d1, e1, f1] = m1;
+    const [a2, b2, c2, d2, e2, f2] = m2;
+    return [
+        a1 * a2 + c1 * b2,
+        b1 * a2 + d1 * b2,
+        a1 * c2 + c1 * d2,
+        b1 * c2 + d1 * d2,
+        a1 * e2 + c1 * f2 + e1,
+        b1 * e2 + d1 * f2 + f1
+    ];
+};
+
+export const translate = (tx: number, ty: number): Matrix => [1, 0, 0, 1, tx, ty];
+
+export const scale = (sx: number, sy: number = sx): Matrix => [sx, 0, 0, sy, 0, 0];
+
+export const rotate = (degrees: number): Matrix => {
+    const r = degrees * Math.PI / 180;
+    const cos = Math.cos(r);
+    const sin = Math.sin(r);
+    return [cos, sin, -sin, cos, 0, 0];
+};
+
+export const applyMatrix = (p: Point, m: Matrix): Point => ({
+    x: m[0] * p.x + m[2] * p.y + m[4],
+    y: m[1] * p.x + m[3] * p.y + m[5]
+});
+
+/**
+ * Transform polygons, keeping their orientation (mirroring transforms reverse the point order).
+ */
+export const transformPolygons = (polygons: Polygon[], m: Matrix): Polygon[] => {
+    const mirrored = m[0] * m[3] - m[1] * m[2] < 0;
+    return polygons.map(poly => {
+        const out = poly.map(p => applyMatrix(p, m));
+        return mirrored ? out.reverse() : out;
+    });
+};
+
+const segmentsForRadius = (r: number, sweep: number = Math.PI * 2): number => {
+    if (r <= ARC_TOLERANCE) return 8;
+    const step = 2 * Math.acos(1 - ARC_TOLERANCE / r);
+    return Math.min(360, Math.max(8, Math.ceil(Math.abs(sweep) / step)));
+};
+
+/**
+ * Points along a circular arc, excluding the start point and including the end.
+ * A start equal to the end is treated as a full circle.
+ */
+export const arcPoints = (start: Point, end: Point, center: Point, clockwise: boolean): Point[] => {
+    const r = Math.hypot(start.x - center.x, start.y - center.y);
+    const a0 = Math.atan2(start.y - center.y, start.x - center.x);
+    const a1 = Math.atan2(end.y - center.y, end.x - center.x);
+
+    let sweep = a1 - a0;
+    if (clockwise) {
+        if (sweep >= -1e-9) sweep -= Math.PI * 2;
+    } else if (sweep <= 1e-9) {
+        sweep += Math.PI * 2;
+    }
+
+    const n = segmentsForRadius(r, sweep);
+    const points: Point[] = [];
+    for (let i = 1; i < n; i++) {
+        const a = a0 + sweep * (i / n);
+        points.push({ x: center.x + r * Math.cos(a), y: center.y + r * Math.sin(a) });
+    }
+    points.push({ x: end.x, y: end.y });
+    return points;
+};
+
+// Primitive builders return outer contours with positive orientation
+
+export const circlePolygon = (cx: number, cy: number, r: number): Polygon => {
+    const n = segmentsForRadius(r);
+    const poly: Polygon = [];
+    for (let i = 0; i < n; i++) {
+        const a = (i / n) * Math.PI * 2;
+        poly.push({ x: cx + r * Math.cos(a), y: cy + r * Math.sin(a) });
+    }
+    return poly;
+};
+
+export const rectPolygon = (cx: number, cy: number, width: number, height: number): Polygon => {
+    const hw = width / 2;
+    const hh = height / 2;
+    return [
+        { x: cx - hw, y: cy - hh },
+        { x: cx + hw, y: cy - hh },
+        { x: cx + hw, y: cy + hh },
+        { x: cx - hw, y: cy + hh }
+    ];
+};
+
+/**
+ * Signed area with the same sign convention as clipper (outer contours positive).
+ */
+export const signedArea = (poly: Polygon): number => {
+    let area = 0;
+    for (let i = 0, j = poly.length - 1; i < poly.length; j = i++) {
+        area += (poly[j].x + poly[i].x) * (poly[j].y - poly[i].y);
+    }
+    return -area / 2;
+};
+
+// --- Clipper bridge ---
+
+const toClipper = (polygons: Polygon[]): ClipperLib.Paths =>
+    polygons.map(poly => poly.map(p => ({ X: Math.round(p.x * CLIPPER_SCALE), Y: Math.round(p.y * CLIPPER_SCALE) })));
+
+const fromClipper = (paths: ClipperLib.Paths): Polygon[] =>
+    paths
+        .filter(path => path.length >= 3)
+        .map(path => path.map(p => ({ x: p.X / CLIPPER_SCALE, y: p.Y / CLIPPER_SCALE })));
+
+const execute = (clipType: ClipperLib.ClipType, subject: Polygon[], clip: Polygon[], fillType: ClipperLib.PolyFillType): Polygon[] => {
+    const clipper = new ClipperLib.Clipper();
+    clipper.AddPaths(toClipper(subject), ClipperLib.PolyType.ptSubject, true);
+    if (clip.length > 0) {
+        clipper.AddPaths(toClipper(clip), ClipperLib.PolyType.ptClip, true);
+    }
+    const solution: ClipperLib.Paths = [];
+    clipper.Execute(clipType, solution, fillType, fillType);
+    return fromClipper(solution);
+};
+
+const fillTypeOf = (rule: 'nonzero' | 'evenodd') =>
+    rule === 'evenodd' ? ClipperLib.PolyFillType.pftEvenOdd : ClipperLib.PolyFillType.pftNonZero;
+
+/**
+ * Merge overlapping polygons. Use 'nonzero' for feature soups (each feature oriented
+ * consistently), 'evenodd' for SVG paths that rely on even-odd holes.
+ */
+export const union = (polygons: Polygon[], rule: 'nonzero' | 'evenodd' = 'nonzero'): Polygon[] => {
+    if (polygons.length === 0) return [];
+    return execute(ClipperLib.ClipType.ctUnion, polygons, [], fillTypeOf(rule));
+};
+
+export const difference = (subject: Polygon[], clip: Polygon[]): Polygon[] => {
+    if (subject.length === 0) return [];
+    if (clip.length === 0) return subject;
+    return execute(ClipperLib.ClipType.ctDifference, subject, clip, ClipperLib.PolyFillType.pftNonZero);
+};
+
+export const intersection = (subject: Polygon[], clip: Polygon[]): Polygon[] => {
+    if (subject.length === 0 || clip.length === 0) return [];
+    return execute(ClipperLib.ClipType.ctIntersection, subject, clip, ClipperLib.PolyFillType.pftNonZero);
+};
+
+/**
+ * Parts of open polylines that lie inside (or outside) the clip polygons. Polylines come
+ * back split wherever they cross a clip edge.
+ */
+export const clipPolylines = (lines: Point[][], clip: Polygon[], keep: 'inside' | 'outside'): Point[][] => {
+    if (lines.length === 0) return [];
+    if (clip.length === 0) return keep === 'inside' ? [] : lines;
+
+    const clipper = new ClipperLib.Clipper();
+    clipper.AddPaths(toClipper(lines), ClipperLib.PolyType.ptSubject, false);
+    clipper.AddPaths(toClipper(clip), ClipperLib.PolyType.ptClip, true);
+    const tree = new ClipperLib.PolyTree();
+    const clipType = keep === 'inside' ? ClipperLib.ClipType.ctIntersection : ClipperLib.ClipType.ctDifference;
+    clipper.Execute(clipType, tree, ClipperLib.PolyFillType.pftNonZero, ClipperLib.PolyFillType.pftNonZero);
+    return ClipperLib.Clipper.OpenPathsFromPolyTree(tree)
+        .filter(path => path.length >= 2)
+        .map(path => path.map(p => ({ x: p.X / CLIPPER_SCALE, y: p.Y / CLIPPER_SCALE })));
+};
+
+/**
+ * Grow (positive delta) or shrink (negative delta) closed polygons.
+ */
+export const offset = (polygons: Polygon[], delta: number, join: 'round' | 'miter' | 'square' = 'round'): Polygon[] => {
+    if (polygons.length === 0) return [];
+    const joinType = join === 'round' ? ClipperLib.JoinType.jtRound
+        : join === 'miter' ? ClipperLib.JoinType.jtMiter : ClipperLib.JoinType.jtSquare;
+
+    const co = new ClipperLib.ClipperOffset(2, ARC_TOLERANCE * CLIPPER_SCALE);
+    co.AddPaths(toClipper(polygons), joinType, ClipperLib.EndType.etClosedPolygon);
+    const solution: ClipperLib.Paths = [];
+    co.Execute(solution, delta * CLIPPER_SCALE);
+    return fromClipper(solution);
+};
+
+/**
+ * Outline of a polyline drawn with a pen of the given width.
+ * Closed polylines (SVG stroked shapes) are joined at the start instead of capped.
+ */
+export const strokePolyline = (points: Point[], width: number, cap: LineCap = 'round', closed: boolean = false): Polygon[] => {
+    if (points.length === 0 || width <= 0) return [];
+    if (points.length === 1 || points.every(p => p.x === points[0].x && p.y === points[0].y)) {
+        const p = points[0];
+        return cap === 'round'
+            ? [circlePolygon(p.x, p.y, width / 2)]
+            : cap === 'square' ? [rectPolygon(p.x, p.y, width, width)] : [];
+    }
+
+    const endType = closed ? ClipperLib.EndType.etClosedLine
+        : cap === 'round' ? ClipperLib.EndType.etOpenRound
+            : cap === 'square' ? ClipperLib.EndType.etOpenSquare : ClipperLib.EndType.etOpenButt;
+
+    const co = new ClipperLib.ClipperOffset(2, ARC_TOLERANCE * CLIPPER_SCALE);
+    co.AddPaths(toClipper([points]), ClipperLib.JoinType.jtRound, endType);
+    const solution: ClipperLib.Paths = [];
+    co.Execute(solution, (width / 2) * CLIPPER_SCALE);
+    return fromClipper(solution);
+};
+
+/**
+ * Convex hull (monotone chain), oriented positive.
+ */
+export const convexHull = (points: Point[]): Polygon => {
+    const sorted = [...points].sort((a, b) => a.x - b.x || a.y - b.y);
+    if (sorted.length < 3) return sorted;
+    const cross = (o: Point, a: Point, b: Point) => (a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+
+    const lower: Point[] = [];
+    for (const p of sorted) {
+        while (lower.length >= 2 && cross(lower[lower.length - 2], lower[lower.length - 1], p) <= 0) lower.pop();
+        lower.push(p);
+    }
+    const upper: Point[] = [];
+    for (let i = sorted.length - 1; i >= 0; i--) {
+        const p = sorted[i];
+        while (upper.length >= 2 && cross(upper[upper.length - 2], upper[upper.length - 1], p) <= 0) upper.pop();
+        upper.push(p);
+    }
+    const hull = [...lower.slice(0, -1), ...upper.slice(0, -1)];
+    return signedArea(hull) < 0 ? hull.reverse() : hull;
+};
+
+/**
+ * Area swept by an axis-aligned rectangular aperture moving along a polyline (a Gerber
+ * draw with a rectangle tool): the union of the hulls of the rectangle at both ends of
+ * every segment. Arcs are swept along their flattened points.
+ */
+export const sweepRect = (points: Point[], width: number, height: number): Polygon[] => {
+    if (points.length === 0 || width <= 0 || height <= 0) return [];
+    if (points.length === 1) return [rectPolygon(points[0].x, points[0].y, width, height)];
+
+    const corners = (p: Point) => rectPolygon(p.x, p.y, width, height);
+    const hulls: Polygon[] = [];
+    for (let i = 1; i < points.length; i++) {
+        hulls.push(convexHull([...corners(points[i - 1]), ...corners(points[i])]));
+    }
+    return union(hulls);
+};
+
+// --- Output ---
+
+export const polygonsToPath = (polygons: Polygon[], precision: number = 4): string =>
+    polygons
+        .filter(poly => poly.length >= 2)
+        .map(poly => 'M' + poly.map(p => `${p.x.toFixed(precision)} ${p.y.toFixed(precision)}`).join(' L') + ' Z')
+        .join(' ');
+
+export const polylinesToPath = (lines: Point[][], precision: number = 4): string =>
+    lines
+        .filter(line => line.length >= 2)
+        .map(line => 'M' + line.map(p => `${p.x.toFixed(precision)} ${p.y.toFixed(precision)}`).join(' L'))
+        .join(' ');
+
+export const polygonsBounds = (polygons: Polygon[]): Bounds => {
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (const poly of polygons) {
+        for (const p of poly) {
+            if (p.x < minX) minX = p.x;
+            if (p.x > maxX) maxX = p.x;
+            if (p.y < minY) minY = p.y;
+            if (p.y > maxY) maxY = p.y;
+        }
+    }
+    if (minX === Infinity) return { x: 0, y: 0, width: 0, height: 0 };
+    return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
@@ -0,0 +1,120 @@
+import { MirrorAxis, PCBLayer } from '~types/pcb';
+import { Bounds, Polygon, polygonsToPath } from './geometry';
+import { DEFAULT_HYBRID, DEFAULT_ISOLATION } from './isolation';
+import { KeepOut, classifies, clipsToBoard, invertPadding } from './layerProcessing';
+
+/**
+ * Cache of processed layer geometry
+ *
+ * Keyed on the inputs that change the geometry (content, inversion, padding, copper mode
+ * and its settings, mask opening expansion, silkscreen settings and the mask openings they are kept off, feature classes and the nets split from them, the mirror axis, and the board bounds and shape where they matter), so edits to laser parameters,
+ * colour or visibility reuse the previous result instead of re-running the booleans.
+ */
+
+export type ProcessedGeometry = Pick<PCBLayer, 'content' | 'clearContent' | 'silkLines' | 'featureClassPaths' | 'smallFeatures' | 'bounds' | 'sourceFormat' | 'mirroredAbout'>;
+
+const MAX_ENTRIES = 32;
+
+// FNV-1a, 32 bit
+export const hashString = (s: string): string => {
+    let h = 0x811c9dc5;
+    for (let i = 0; i < s.length; i++) {
+        h ^= s.charCodeAt(i);
+        h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0');
+};
+
+export const geometryOf = (layer: PCBLayer): ProcessedGeometry => ({
+    content: layer.content,
+    clearContent: layer.clearContent,
+    silkLines: layer.silkLines,
+    featureClassPaths: layer.featureClassPaths,
+    smallFeatures: layer.smallFeatures,
+    bounds: layer.bounds,
+    sourceFormat: layer.sourceFormat,
+    mirroredAbout: layer.mirroredAbout
+});
+
+export const applyGeometry = (layer: PCBLayer, geometry: ProcessedGeometry): PCBLayer => ({
+    ...layer,
+    ...geometry,
+    // The processed geometry is the final image
+    inverted: false
+});
+
+export class GeometryCache {
+    private entries = new Map<string, ProcessedGeometry>();
+    // Last content hashed per layer, so unchanged (identical) strings aren't hashed again
+    private hashes = new Map<string, { content: string; hash: string }>();
+    // Same for the path data each layer is kept off
+    private keepOutHashes = new Map<string, { content: string; hash: string }>();
+    // Hash of the last board shape seen; it changes far less often than it is asked for
+    private boardHash: { board: Polygon[]; hash: string } | null = null;
+
+    keyFor(layer: PCBLayer, bounds: Bounds, mirror: MirrorAxis, board: Polygon[] | null, keepOut: KeepOut | null = null): string {
+        let memo = this.hashes.get(layer.id);
+        if (!memo || memo.content !== layer.content) {
+            memo = { content: layer.content, hash: hashString(layer.content) };
+            this.hashes.set(layer.id, memo);
+        }
+
+        const mode = layer.copperMode ?? 'clearance';
+        const isolated = mode === 'isolation' || mode === 'hybrid';
+        const hybrid = layer.hybrid ?? DEFAULT_HYBRID;
+        const openings = layer.maskOpenings;
+        const silk = layer.silkscreen;
+        const usesBounds = mode === 'hybrid' ? hybrid.clearFar : !isolated && !openings && !silk && layer.inverted;
+        const usesBoard = !!board && (usesBounds || isolated || clipsToBoard(layer));
+        if (usesBoard && board && this.boardHash?.board !== board) {
+            this.boardHash = { board, hash: hashString(polygonsToPath(board)) };
+        }
+
+        const usesKeepOut = !!keepOut && !!silk?.clipToMask;
+        let keepOutMemo = this.keepOutHashes.get(layer.id);
+        if (usesKeepOut && (!keepOutMemo || keepOutMemo.content !== keepOut!.content)) {
+            keepOutMemo = { content: keepOut!.content, hash: hashString(keepOut!.content) };
+            this.keepOutHashes.set(layer.id, keepOutMemo);
+        }
+
+        return JSON.stringify([
+            memo.hash,
+            mode,
+            isolated || openings || silk ? null : layer.inverted,
+            openings ? openings.expansion : null,
+            silk ?? null,
+            usesKeepOut ? [keepOutMemo!.hash, keepOut!.expansion] : null,
+            usesBounds ? invertPadding(layer, !!board) : null,
+            usesBounds && !board ? [bounds.x, bounds.y, bounds.width, bounds.height] : null,
+            usesBoard ? this.boardHash!.hash : null,
+            isolated ? layer.isolation ?? DEFAULT_ISOLATION : null,
+            mode === 'hybrid' ? [hybrid.distance, hybrid.clearFar] : null,
+            classifies(layer) ? (layer.netSplits ?? []).map(s => s.net) : null,
+            layer.mirrored ? [mirror.orientation, mirror.position] : null
+        ]);
+    }
+
+    get(key: string): ProcessedGeometry | undefined {
+        const hit = this.entries.get(key);
+        if (hit) {
+            // Refresh recency
+            this.entries.delete(key);
+            this.entries.set(key, hit);
+        }
+        return hit;
+    }
+
+    set(key: string, geometry: ProcessedGeometry) {
+        this.entries.delete(key);
+        this.entries.set(key, geometry);
+        while (this.entries.size > MAX_ENTRIES) {
+            this.entries.delete(this.entries.keys().next().value!);
+        }
+    }
+
+    clear() {
+        this.entries.clear();
+        this.hashes.clear();
+        this.keepOutHashes.clear();
+    }
+}
@@ -0,0 +1,225 @@
+import { GerberFormat, MirrorAxis, PCBLayer } from '~types/pcb';
+import { Bounds, Polygon } from './geometry';
+import { PlottedGerber, plotGerber } from './gerberPlot';
+import { KeepOut, processLayer, ProcessingStage } from './layerProcessing';
+
+/**
+ * Pool of geometry workers
+ *
+ * Each layer is one task. Results stream back per layer through the run's callbacks;
+ * cancelling a run drops its queued tasks and terminates the workers still busy with it
+ * (a clipper operation can't be interrupted), replacing them on demand. Gerber files are
+ * plotted in the same workers, one task each, queued with the layer tasks.
+ */
+
+export interface GeometryTask {
+    layer: PCBLayer;
+    bounds: Bounds;
+    mirror: MirrorAxis;
+    board: Polygon[] | null;
+    keepOut: KeepOut | null;
+}
+
+export interface PlotTask {
+    content: string;
+    format: GerberFormat;
+    isOutline: boolean;
+}
+
+export type GeometryWorkerRequest =
+    | { type: 'process'; runId: number } & GeometryTask
+    | { type: 'plot'; runId: number } & PlotTask;
+
+export type GeometryWorkerResponse =
+    | { type: 'progress'; runId: number; layerId: string; stage: ProcessingStage }
+    | { type: 'result'; runId: number; layer: PCBLayer }
+    | { type: 'plotted'; runId: number; plotted: PlottedGerber }
+    | { type: 'error'; runId: number; message: string };
+
+export interface GeometryRunCallbacks {
+    onProgress?: (layerId: string, stage: ProcessingStage) => void;
+    onResult: (layer: PCBLayer) => void;
+    onError?: (layerId: string, message: string) => void;
+    onDone?: () => void;
+}
+
+interface Run {
+    callbacks: GeometryRunCallbacks;
+    remaining: number;
+}
+
+interface Plot {
+    resolve: (plotted: PlottedGerber) => void;
+    reject: (error: Error) => void;
+}
+
+// Leave a core for the UI thread
+const defaultPoolSize = (): number =>
+    Math.max(1, Math.min(4, (typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2) - 1));
+
+export class GeometryWorkerPool {
+    private workers: Worker[] = [];
+    private idle: Worker[] = [];
+    private busy = new Map<Worker, GeometryWorkerRequest>();
+    private queue: GeometryWorkerRequest[] = [];
+    private runs = new Map<number, Run>();
+    private plots = new Map<number, Plot>();
+    private nextRunId = 1;
+
+    constructor(private size: number = defaultPoolSize()) { }
+
+    /**
+     * Start processing the tasks. Returns a function that cancels the run.
+     */
+    run(tasks: GeometryTask[], callbacks: GeometryRunCallbacks): () => void {
+        const runId = this.nextRunId++;
+        if (tasks.length === 0) {
+            callbacks.onDone?.();
+            return () => { };
+        }
+
+        this.runs.set(runId, { callbacks, remaining: tasks.length });
+
+        if (typeof Worker === 'undefined') {
+            this.runInline(runId, tasks);
+        } else {
+            this.queue.push(...tasks.map(t => ({ type: 'process' as const, runId, ...t })));
+            this.dispatch();
+        }
+
+        return () => this.cancel(runId);
+    }
+
+    /**
+     * Plot a Gerber file. Plots queue behind the layer tasks already waiting.
+     */
+    plot(task: PlotTask): Promise<PlottedGerber> {
+        if (typeof Worker === 'undefined') {
+            return new Promise(resolve => setTimeout(resolve, 0))
+                .then(() => plotGerber(task.content, task.format, task.isOutline));
+        }
+
+        const runId = this.nextRunId++;
+        return new Promise((resolve, reject) => {
+            this.plots.set(runId, { resolve, reject });
+            this.queue.push({ type: 'plot', runId, ...task });
+            this.dispatch();
+        });
+    }
+
+    cancel(runId: number) {
+        if (!this.runs.delete(runId)) return;
+        this.queue = this.queue.filter(t => t.runId !== runId);
+
+        this.busy.forEach((task, worker) => {
+            if (task.runId === runId) this.retire(worker);
+        });
+        this.dispatch();
+    }
+
+    dispose() {
+        this.runs.clear();
+        this.plots.forEach(plot => plot.reject(new Error('Geometry workers disposed')));
+        this.plots.clear();
+        this.queue = [];
+        this.workers.forEach(w => w.terminate());
+        this.workers = [];
+        this.idle = [];
+        this.busy.clear();
+    }
+
+    private spawn(): Worker {
+        const worker = new Worker(new URL('../workers/geometry.worker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (e: MessageEvent<GeometryWorkerResponse>) => this.handleMessage(worker, e.data);
+        worker.onerror = (e: ErrorEvent) => {
+            e.preventDefault();
+            const task = this.busy.get(worker);
+            this.retire(worker);
+            if (task) this.fail(task, e.message || 'Geometry worker crashed');
+            this.dispatch();
+        };
+        this.workers.push(worker);
+        return worker;
+    }
+
+    // Terminate a worker and forget it; a fresh one is spawned when needed
+    private retire(worker: Worker) {
+        worker.terminate();
+        this.busy.delete(worker);
+        this.workers = this.workers.filter(w => w !== worker);
+        this.idle = this.idle.filter(w => w !== worker);
+    }
+
+    private dispatch() {
+        while (this.queue.length > 0) {
+            const worker = this.idle.pop() ?? (this.workers.length < this.size ? this.spawn() : null);
+            if (!worker) return;
+
+            const task = this.queue.shift()!;
+            this.busy.set(worker, task);
+            worker.postMessage(task);
+        }
+    }
+
+    private handleMessage(worker: Worker, message: GeometryWorkerResponse) {
+        const run = this.runs.get(message.runId);
+
+        if (message.type === 'progress') {
+            run?.callbacks.onProgress?.(message.layerId, message.stage);
+            return;
+        }
+
+        const task = this.busy.get(worker);
+        this.busy.delete(worker);
+        this.idle.push(worker);
+
+        if (message.type === 'result') {
+            this.finish(message.runId, message.layer.id, null, message.layer);
+        } else if (message.type === 'plotted') {
+            this.plots.get(message.runId)?.resolve(message.plotted);
+            this.plots.delete(message.runId);
+        } else if (task) {
+            this.fail(task, message.message);
+        }
+        this.dispatch();
+    }
+
+    private fail(task: GeometryWorkerRequest, error: string) {
+        if (task.type === 'process') {
+            this.finish(task.runId, task.layer.id, error);
+            return;
+        }
+        this.plots.get(task.runId)?.reject(new Error(error));
+        this.plots.delete(task.runId);
+    }
+
+    private finish(runId: number, layerId: string, error: string | null, layer?: PCBLayer) {
+        const run = this.runs.get(runId);
+        if (!run) return; // Cancelled
+
+        if (layer) run.callbacks.onResult(layer);
+        else run.callbacks.onError?.(layerId, error || 'Unknown error');
+
+        run.remaining--;
+        if (run.remaining === 0) {
+            this.runs.delete(runId);
+            run.callbacks.onDone?.();
+        }
+    }
+
+    // No worker support: same processing on the main thread, one layer per tick
+    private async runInline(runId: number, tasks: GeometryTask[]) {
+        for (const task of tasks) {
+            await new Promise(resolve => setTimeout(resolve, 0));
+            const run = this.runs.get(runId);
+            if (!run) return;
+
+            try {
+                const layer = processLayer(task.layer, task.bounds, task.mirror, task.board, task.keepOut, stage => run.callbacks.onProgress?.(task.layer.id, stage));
+                this.finish(runId, task.layer.id, null, layer);
+            } catch (err) {
+                this.finish(runId, task.layer.id, err instanceof Error ? err.message : String(err));
+            }
+        }
+    }
+}
@@ -0,0 +1,81 @@
+import { GerberFormat } from '~types/pcb';
+
+/**
+ * Gerber coordinate format
+ *
+ * Coordinates in a Gerber file are bare digit strings whose meaning comes from two headers:
+ * `%FSLAX46Y46*%` (zero suppression and integer/decimal digits) and `%MOMM*%` / `%MOIN*%`
+ * (units). Old exporters sometimes leave one out, or use the deprecated G70/G71 codes, so
+ * detection reports what it had to guess and the UI lets the user override it per layer.
+ */
+
+const RE_FORMAT = /%FS([LTD]?)([AI]?)X(\d)(\d)Y(\d)(\d)\*%/;
+const RE_UNITS = /%MO(MM|IN)\*%/;
+const RE_LEGACY_UNITS = /(?:^|\*)\s*G7([01])\*/m; // G70 = inch, G71 = mm
+// Plain integer coordinates (no decimal point) inside operations
+const RE_COORDINATE = /[XY]([+-]?\d+)(?=[XYIJD])/g;
+
+// Coordinates sampled for the digit count check
+const SAMPLE_LIMIT = 2000;
+
+export interface FormatDetection {
+    format: GerberFormat;
+    warnings: string[]; // Empty when the headers leave no doubt
+}
+
+export const formatLabel = (format: GerberFormat): string =>
+    `${format.places[0]}.${format.places[1]} ${format.zero === 'T' ? 'trailing' : 'leading'} ${format.units === 'in' ? 'inch' : 'mm'}`;
+
+export const sameFormat = (a: GerberFormat, b: GerberFormat): boolean =>
+    a.units === b.units && a.zero === b.zero && a.places[0] === b.places[0] && a.places[1] === b.places[1];
+
+/**
+ * Read the coordinate format from a Gerber file's headers.
+ */
+export const detectGerberFormat = (content: string): FormatDetection => {
+    const warnings: string[] = [];
+    const fs = content.match(RE_FORMAT);
+    const mo = content.match(RE_UNITS);
+    const legacy = content.match(RE_LEGACY_UNITS);
+
+    let units: GerberFormat['units'];
+    if (mo) {
+        units = mo[1] === 'IN' ? 'in' : 'mm';
+    } else if (legacy) {
+        units = legacy[1] === '0' ? 'in' : 'mm';
+    } else {
+        // Two integer digits only make sense for inches
+        units = fs && Number(fs[3]) <= 2 ? 'in' : 'mm';
+        warnings.push(`No %MO unit header; assuming ${units === 'in' ? 'inches' : 'millimetres'}`);
+    }
+
+    let zero: GerberFormat['zero'] = 'L';
+    let places: [number, number];
+    if (fs) {
+        places = [Number(fs[3]), Number(fs[4])];
+        // 'D' (explicit decimal point, no suppression) reads the same as leading
+        if (fs[1] === 'T') zero = 'T';
+        else if (!fs[1]) warnings.push('Zero suppression not given in %FS; assuming leading');
+        if (fs[2] === 'I') warnings.push('Incremental coordinates are not supported; read as absolute');
+        if (fs[3] !== fs[5] || fs[4] !== fs[6]) {
+            warnings.push(`X and Y formats differ (X${fs[3]}${fs[4]} Y${fs[5]}${fs[6]}); using X for both`);
+        }
+    } else {
+        places = units === 'in' ? [2, 4] : [4, 6];
+        warnings.push(`No %FS format header; assuming ${places[0]}.${places[1]}`);
+    }
+
+    // More digits than the format holds means the header doesn't describe the data
+    const width = places[0] + places[1];
+    let longest = 0;
+    let sampled = 0;
+    for (const match of content.matchAll(RE_COORDINATE)) {
+        longest = Math.max(longest, match[1].replace(/^[+-]/, '').length);
+        if (++sampled >= SAMPLE_LIMIT) break;
+    }
+    if (longest > width) {
+        warnings.push(`Coordinates have up to ${longest} digits but the format holds ${width}`);
+    }
+
+    return { format: { units, zero, places }, warnings };
+};
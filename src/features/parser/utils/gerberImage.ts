@@ -0,0 +1,332 @@
+import gerberParser from 'gerber-parser';
+import { GerberFormat } from '~types/pcb';
+import { Point } from './geometry';
+import { MacroBlock } from './apertures';
+
+/**
+ * Gerber intermediate model
+ *
+ * The one place a Gerber file is interpreted. gerber-parser tokenises the blocks; this
+ * module runs the graphics state machine over them and produces a typed image: the
+ * aperture dictionary, macro definitions, and every graphics object (flash, draw, region)
+ * in file order with its polarity and X2 attributes. Step-and-repeat blocks are expanded
+ * here, so consumers never see them.
+ *
+ * Coordinates are mm in board space (Y down, Y = -gerberY). Aperture parameters stay in
+ * file units, since macro modifiers are not all lengths; `unitScale` converts them.
+ * Everything downstream (the polygon renderer, board outline, exporters) reads this model.
+ */
+
+export type ImagePolarity = 'dark' | 'clear';
+
+// Attribute name (e.g. '.N', '.AperFunction') to its fields
+export type Attributes = Record<string, string[]>;
+
+export interface GerberAperture {
+    code: string; // e.g. 'D10'
+    shape: string; // 'circle' | 'rect' | 'obround' | 'poly', otherwise a macro name
+    params: number[]; // File units
+    hole?: number[];
+    attributes: Attributes; // %TA in force when the aperture was defined
+}
+
+export type PathSegment =
+    | { type: 'line'; to: Point }
+    | { type: 'arc'; to: Point; centre: Point; clockwise: boolean }; // Direction as seen on the board
+
+interface ObjectBase {
+    polarity: ImagePolarity;
+    attributes: Attributes; // %TO in force when the object was created
+}
+
+export interface GerberFlash extends ObjectBase {
+    kind: 'flash';
+    aperture: GerberAperture;
+    at: Point;
+}
+
+export interface GerberDraw extends ObjectBase {
+    kind: 'draw';
+    aperture: GerberAperture;
+    from: Point;
+    segment: PathSegment;
+}
+
+export interface RegionContour {
+    start: Point;
+    segments: PathSegment[];
+}
+
+export interface GerberRegion extends ObjectBase {
+    kind: 'region';
+    contours: RegionContour[];
+    apertureAttributes: Attributes; // %TA in force, which X2 applies to regions (they have no aperture)
+}
+
+export type GerberObject = GerberFlash | GerberDraw | GerberRegion;
+
+export interface GerberImage {
+    format: GerberFormat;
+    unitScale: number; // File units to mm
+    apertures: Record<string, GerberAperture>; // Last definition of each code
+    macros: Record<string, MacroBlock[]>;
+    objects: GerberObject[];
+    attributes: Attributes; // File attributes (%TF)
+}
+
+interface AttributeCommand {
+    line: number;
+    kind: 'F' | 'A' | 'O' | 'D';
+    name: string;
+    values: string[];
+}
+
+const RE_ATTRIBUTE = /%T([FAOD])([^*%]*)\*%/g;
+
+/**
+ * gerber-parser drops X2 attributes, so they are read in a separate pass and merged into
+ * its command stream by line number. An attribute applies to commands on its own line
+ * and after, which is exact for the one-block-per-line output of every X2 exporter.
+ */
+const scanAttributes = (content: string): AttributeCommand[] => {
+    const commands: AttributeCommand[] = [];
+    let line = 0;
+    let lineCountedTo = 0;
+    for (const match of content.matchAll(RE_ATTRIBUTE)) {
+        for (let i = lineCountedTo; i < match.index!; i++) {
+            if (content.charCodeAt(i) === 10) line++;
+        }
+        lineCountedTo = match.index!;
+        const [name = '', ...values] = match[2].split(',');
+        commands.push({ line, kind: match[1] as AttributeCommand['kind'], name, values });
+    }
+    return commands;
+};
+
+const translatePoint = (p: Point, dx: number, dy: number): Point => ({ x: p.x + dx, y: p.y + dy });
+
+const translateSegment = (s: PathSegment, dx: number, dy: number): PathSegment => s.type === 'line'
+    ? { type: 'line', to: translatePoint(s.to, dx, dy) }
+    : { ...s, to: translatePoint(s.to, dx, dy), centre: translatePoint(s.centre, dx, dy) };
+
+const translateObject = (o: GerberObject, dx: number, dy: number): GerberObject => {
+    switch (o.kind) {
+        case 'flash':
+            return { ...o, at: translatePoint(o.at, dx, dy) };
+        case 'draw':
+            return { ...o, from: translatePoint(o.from, dx, dy), segment: translateSegment(o.segment, dx, dy) };
+        case 'region':
+            return {
+                ...o,
+                contours: o.contours.map(c => ({
+                    start: translatePoint(c.start, dx, dy),
+                    segments: c.segments.map(s => translateSegment(s, dx, dy))
+                }))
+            };
+    }
+};
+
+/**
+ * Single-quadrant arcs (G74) give the centre offset unsigned. Pick the signs that put the
+ * centre equidistant from both ends with a sweep of at most 90 degrees in the given
+ * direction. Works in file units, Y up.
+ */
+const singleQuadrantCentre = (from: Point, to: Point, i: number, j: number, clockwise: boolean): Point => {
+    let best: Point = { x: from.x + i, y: from.y + j };
+    let bestError = Infinity;
+    for (const sx of [1, -1]) {
+        for (const sy of [1, -1]) {
+            const c = { x: from.x + sx * Math.abs(i), y: from.y + sy * Math.abs(j) };
+            const a0 = Math.atan2(from.y - c.y, from.x - c.x);
+            const a1 = Math.atan2(to.y - c.y, to.x - c.x);
+            let sweep = clockwise ? a0 - a1 : a1 - a0;
+            if (sweep < 0) sweep += Math.PI * 2;
+            if (sweep > Math.PI / 2 + 1e-6) continue;
+            const error = Math.abs(Math.hypot(from.x - c.x, from.y - c.y) - Math.hypot(to.x - c.x, to.y - c.y));
+            if (error < bestError) {
+                bestError = error;
+                best = c;
+            }
+        }
+    }
+    return best;
+};
+
+interface StepRepeat {
+    x: number; // copies along X
+    y: number; // copies along Y
+    i: number; // X step, file units
+    j: number; // Y step, file units
+}
+
+/**
+ * Interpret a Gerber file with the given coordinate format, which takes precedence over
+ * the file's own headers so a user override applies.
+ */
+export const readGerber = (content: string, format: GerberFormat): GerberImage => {
+    const parser = gerberParser({ places: format.places, zero: format.zero });
+    const commands = parser.parseSync(content);
+    const attributeCommands = scanAttributes(content);
+
+    const unitScale = format.units === 'in' ? 25.4 : 1;
+    const image: GerberImage = { format, unitScale, apertures: {}, macros: {}, objects: [], attributes: {} };
+
+    // Graphics state; positions are kept in file units (Y up) and converted per object
+    let currentX = 0;
+    let currentY = 0;
+    let aperture: GerberAperture | null = null;
+    let interpolation: 'i' | 'cw' | 'ccw' = 'i';
+    let singleQuadrant = false;
+    let polarity: ImagePolarity = 'dark';
+    let inRegion = false;
+    let contours: RegionContour[] = [];
+
+    // Attribute dictionaries; replaced rather than mutated so objects can share them
+    let apertureAttributes: Attributes = {};
+    let objectAttributes: Attributes = {};
+    let nextAttribute = 0;
+
+    // Objects of the step-and-repeat block being collected
+    let stepRepeat: StepRepeat | null = null;
+    let block: GerberObject[] = [];
+
+    const toBoard = (x: number, y: number): Point => ({ x: x * unitScale, y: -y * unitScale });
+
+    const emit = (object: GerberObject) => (stepRepeat ? block : image.objects).push(object);
+
+    const applyAttributes = (line: number) => {
+        while (nextAttribute < attributeCommands.length && attributeCommands[nextAttribute].line <= line) {
+            const { kind, name, values } = attributeCommands[nextAttribute++];
+            if (kind === 'F') {
+                image.attributes[name] = values;
+            } else if (kind === 'A') {
+                apertureAttributes = { ...apertureAttributes, [name]: values };
+            } else if (kind === 'O') {
+                objectAttributes = { ...objectAttributes, [name]: values };
+            } else if (!name) {
+                // %TD*% clears every aperture and object attribute
+                apertureAttributes = {};
+                objectAttributes = {};
+            } else if (name in objectAttributes) {
+                const { [name]: _removed, ...rest } = objectAttributes;
+                objectAttributes = rest;
+            } else if (name in apertureAttributes) {
+                const { [name]: _removed, ...rest } = apertureAttributes;
+                apertureAttributes = rest;
+            }
+        }
+    };
+
+    // Copies go out along X, then Y; each is a full pass over the block, clear objects
+    // included, so a copy can erase parts of the ones before it
+    const closeStepRepeat = () => {
+        if (!stepRepeat) return;
+        for (let iy = 0; iy < stepRepeat.y; iy++) {
+            for (let ix = 0; ix < stepRepeat.x; ix++) {
+                const dx = ix * stepRepeat.i * unitScale;
+                const dy = -iy * stepRepeat.j * unitScale;
+                block.forEach(o => image.objects.push(dx || dy ? translateObject(o, dx, dy) : o));
+            }
+        }
+        stepRepeat = null;
+        block = [];
+    };
+
+    const closeRegion = () => {
+        // A contour needs two segments to enclose anything, unless it is one full-circle arc
+        const closed = contours.filter(c => c.segments.length >= 2 || (
+            c.segments.length === 1 && c.segments[0].type === 'arc'
+            && c.segments[0].to.x === c.start.x && c.segments[0].to.y === c.start.y
+        ));
+        if (closed.length > 0) {
+            emit({ kind: 'region', polarity, attributes: objectAttributes, apertureAttributes, contours: closed });
+        }
+        contours = [];
+    };
+
+    for (const cmd of commands) {
+        applyAttributes(cmd.line);
+
+        if (cmd.type === 'tool') {
+            image.apertures[cmd.code] = {
+                code: `D${cmd.code}`,
+                shape: cmd.tool.shape,
+                params: cmd.tool.params ?? [],
+                hole: cmd.tool.hole?.length ? cmd.tool.hole : undefined,
+                attributes: apertureAttributes
+            };
+        }
+        else if (cmd.type === 'macro') {
+            image.macros[cmd.name] = cmd.blocks;
+        }
+        else if (cmd.type === 'level') {
+            if (cmd.level === 'polarity') {
+                polarity = cmd.value === 'C' ? 'clear' : 'dark';
+            } else if (cmd.level === 'stepRep') {
+                // %SR with counts opens a block; a bare %SR (1x1) closes the current one
+                closeStepRepeat();
+                const sr = cmd.value;
+                if (sr.x > 1 || sr.y > 1) stepRepeat = sr;
+            }
+        }
+        else if (cmd.type === 'set') {
+            if (cmd.prop === 'region') {
+                inRegion = cmd.value;
+                if (inRegion) {
+                    contours = [{ start: toBoard(currentX, currentY), segments: [] }];
+                } else {
+                    closeRegion();
+                }
+            } else if (cmd.prop === 'tool') {
+                aperture = image.apertures[cmd.value] ?? null;
+            } else if (cmd.prop === 'mode') {
+                interpolation = cmd.value;
+            } else if (cmd.prop === 'arc') {
+                singleQuadrant = cmd.value === 's';
+            }
+        }
+        else if (cmd.type === 'op') {
+            const { op, coord } = cmd;
+            const x = coord.x !== undefined ? coord.x : currentX;
+            const y = coord.y !== undefined ? coord.y : currentY;
+            const from = toBoard(currentX, currentY);
+            const to = toBoard(x, y);
+
+            if (op === 'move') {
+                // D02 inside a region starts a new contour
+                if (inRegion) contours.push({ start: to, segments: [] });
+            }
+            else if (op === 'int') {
+                let segment: PathSegment;
+                if (interpolation === 'i') {
+                    segment = { type: 'line', to };
+                } else {
+                    const clockwise = interpolation === 'cw';
+                    const i = coord.i || 0;
+                    const j = coord.j || 0;
+                    // The centre is found in file units (Y up), where G02 / G03 have their meaning
+                    const c = singleQuadrant
+                        ? singleQuadrantCentre({ x: currentX, y: currentY }, { x, y }, i, j, clockwise)
+                        : { x: currentX + i, y: currentY + j };
+                    const centre = toBoard(c.x, c.y);
+                    segment = { type: 'arc', to, centre, clockwise };
+                }
+
+                if (inRegion) {
+                    contours[contours.length - 1].segments.push(segment);
+                } else if (aperture) {
+                    emit({ kind: 'draw', polarity, attributes: objectAttributes, aperture, from, segment });
+                }
+            }
+            else if (op === 'flash' && aperture) {
+                emit({ kind: 'flash', polarity, attributes: objectAttributes, aperture, at: to });
+            }
+            currentX = x;
+            currentY = y;
+        }
+    }
+    if (inRegion) closeRegion();
+    closeStepRepeat();
+
+    return image;
+};
@@ -1,13 +1,17 @@
 
 import JSZip from 'jszip';
-import { PCBLayer } from '~types/pcb';
-import { GerberToPath } from './vectorUtils'; // Keep for SVG bounds or cleanup later
-import { convertGerberToSvg } from './gerberToSvgWrapper';
+import { BoardShape, GerberFormat, LayerSide, PCBFileSource, PCBLayer, PCBProject } from '~types/pcb';
+import { detectGerberFormat } from './gerberFormat';
+import { PlottedGerber, plotGerber } from './gerberPlot';
+import { parseExcellon, splitByPlating, drillToPath, drillBounds, DEFAULT_PILOT_DIAMETER } from './excellonParser';
+import { GerberJob, LayerDetection, parseGerberJob, detectFromFileAttributes, basename } from './gerberX2';
+import { parseSvgLayer } from './svgParser';
+import { Bounds, Polygon, polygonsBounds, polygonsToPath, transformPolygons, translate } from './geometry';
 
 /**
  * Heuristics for detecting Gerber layer types from filenames
  */
-const LAYER_HEURISTICS: Record<string, { type: string; side: 'front' | 'back' | 'internal' | 'board' }> = {
+const LAYER_HEURISTICS: Record<string, { type: string; side: LayerSide }> = {
     // Common KiCad / Altium / Eagle patterns
     'f_cu': { type: 'F.Cu', side: 'front' },
     'gtl': { type: 'F.Cu', side: 'front' },
@@ -29,106 +33,233 @@ const LAYER_HEURISTICS: Record<string, { type: string; side: 'front' | 'back' |
     'b_silk': { type: 'B.SilkS', side: 'back' },
     'gbo': { type: 'B.SilkS', side: 'back' },
 
+    'f_paste': { type: 'F.Paste', side: 'front' },
+    'gtp': { type: 'F.Paste', side: 'front' },
+
+    'b_paste': { type: 'B.Paste', side: 'back' },
+    'gbp': { type: 'B.Paste', side: 'back' },
+
     'edge_cuts': { type: 'Edge.Cuts', side: 'board' },
     'gko': { type: 'Edge.Cuts', side: 'board' },
     'gm1': { type: 'Edge.Cuts', side: 'board' },
 };
 
-export const parseGerberZip = async (file: File): Promise<PCBLayer[]> => {
+// Layer files we can read, inside a ZIP or dropped on their own
+export const LAYER_FILE_PATTERN = /\.(gbr|gtl|gbl|gts|gbs|gto|gbo|gtp|gbp|gko|gm[0-9]|drl|xln|svg|gbrjob)$/i;
+
+/**
+ * Plots a Gerber file for the importer. The app hands in one that runs in the geometry
+ * workers; the default plots on the calling thread.
+ */
+export type GerberPlotter = (content: string, format: GerberFormat, isOutline: boolean) => Promise<PlottedGerber>;
+
+const plotHere: GerberPlotter = async (content, format, isOutline) => plotGerber(content, format, isOutline);
+
+interface SourceFile {
+    name: string;
+    content: string;
+}
+
+export const parseGerberZip = async (file: File, plot: GerberPlotter = plotHere): Promise<PCBProject> => {
     const zip = new JSZip();
     const contents = await zip.loadAsync(file);
-    const layers: PCBLayer[] = [];
+    const sources: SourceFile[] = [];
 
-    const entries = Object.entries(contents.files);
+    for (const [filename, zipEntry] of Object.entries(contents.files)) {
+        if (zipEntry.dir || !LAYER_FILE_PATTERN.test(filename)) continue;
+        sources.push({ name: filename, content: await zipEntry.async('string') });
+    }
 
-    for (const [filename, zipEntry] of entries) {
-        if (zipEntry.dir || !filename.match(/\.(gbr|gtl|gbl|gts|gbs|gto|gbo|gko|gm[0-9]|drl|xln|svg)$/i)) {
-            continue;
-        }
+    return buildProject(sources, file.name.replace(/\.zip$/i, ''), 'ZIP', plot);
+};
 
-        const content = await zipEntry.async('string');
-        let path = '';
-        let outline = '';
-        let sourceFormat: 'gerber' | 'svg' = 'gerber';
-        let layerBounds = undefined;
-        let simplifiedContent: string | undefined = undefined; // For inversion
-        const layerId = crypto.randomUUID();
-
-        if (filename.toLowerCase().endsWith('.svg')) {
-            sourceFormat = 'svg';
-            const matches = content.match(/d="([^"]+)"/g);
-            if (matches) {
-                path = matches.map(m => m.slice(3, -1)).join(' ');
-                outline = path;
-            }
-        } else {
-            // Compute basic outline always for metadata/fallback
-            const basic = GerberToPath.convert(content);
-            outline = basic.path;
-
-            try {
-                // 1. Standard Display (Filled / Normal)
-                const result = await convertGerberToSvg(content, filename);
-                path = result.svg;
-                layerBounds = result.bounds;
-                sourceFormat = 'svg';
-
-                if (!layerBounds || layerBounds.width <= 0) {
-                    layerBounds = basic.bounds;
-                }
-
-                // 2. Simplified/Outline for Inversion (Contour Mode) for Math Engine
-                try {
-                    const simplifiedResult = await convertGerberToSvg(content, filename, { plotAsOutline: true });
-                    simplifiedContent = simplifiedResult.svg;
-                } catch (err) {
-                    console.warn("Simplified generation failed for inversion, falling back to standard content", err);
-                    simplifiedContent = undefined; // Inversion will use path
-                }
-
-            } catch (e) {
-                console.warn(`Standard parser failed for ${filename}, using basic fallback`, e);
-                path = basic.path;
-                layerBounds = basic.bounds;
-                sourceFormat = 'gerber';
-            }
+/**
+ * Loose layer files dropped without a ZIP: Gerbers, drill files, a job file and/or
+ * SVG layer exports (one file per layer, e.g. KiCad "Plot > SVG").
+ */
+export const parseLayerFiles = async (files: File[], plot: GerberPlotter = plotHere): Promise<PCBProject> => {
+    const sources = await Promise.all(
+        files
+            .filter(f => LAYER_FILE_PATTERN.test(f.name))
+            .map(async f => ({ name: f.name, content: await f.text() }))
+    );
+    const allSvg = sources.every(s => /\.svg$/i.test(s.name));
+    return buildProject(sources, projectNameFromFiles(sources.map(s => s.name)), allSvg ? 'SVG' : 'GERBER', plot);
+};
+
+interface SourceLayers {
+    layers: PCBLayer[];
+    board?: BoardShape; // Of an outline layer
+    polygons?: Polygon[]; // Of an SVG layer, placed once every layer is read
+}
+
+// Layers of one source file, or none when it can't be read
+const readSource = async ({ name: filename, content }: SourceFile, job: GerberJob | null, plot: GerberPlotter): Promise<SourceLayers> => {
+    // Excellon drill files get their own parser and may yield separate PTH / NPTH layers
+    if (/\.(drl|xln)$/i.test(filename)) {
+        return { layers: buildDrillLayers(filename, content) };
+    }
+
+    // Job file > the file's own X2 attributes > filename heuristics
+    const detection = job?.files.get(basename(filename))
+        ?? detectFromFileAttributes(content)
+        ?? detectFromFilename(filename);
+
+    const layer: PCBLayer = {
+        id: crypto.randomUUID(),
+        name: filename,
+        type: detection.type,
+        side: detection.side,
+        content: '',
+        visible: detection.side !== 'internal',
+        color: getDefaultColor(detection.type),
+        mirrored: detection.side === 'back',
+        inverted: false,
+        speed: 100,
+        power: 20,
+        frequency: 40,
+        sourceFormat: 'svg',
+        copperIndex: detection.copperIndex,
+        polarity: detection.polarity
+    };
+
+    if (filename.toLowerCase().endsWith('.svg')) {
+        let polygons: Polygon[];
+        try {
+            polygons = parseSvgLayer(content);
+        } catch (e) {
+            console.warn(`Skipping ${filename}: SVG could not be read`, e);
+            return { layers: [] };
         }
+        return {
+            layers: [{ ...layer, content: polygonsToPath(polygons), bounds: polygonsBounds(polygons) }],
+            polygons
+        };
+    }
 
-        const lowerName = filename.toLowerCase();
-        let detection: { type: string; side: 'front' | 'back' | 'internal' | 'board' } = { type: 'Unknown', side: 'internal' };
-        for (const [pattern, info] of Object.entries(LAYER_HEURISTICS)) {
-            if (lowerName.includes(pattern)) {
-                detection = info as any;
-                break;
-            }
+    const { format, warnings } = detectGerberFormat(content);
+    if (warnings.length > 0) console.warn(`${filename}: ambiguous coordinate format`, warnings);
+
+    let plotted: PlottedGerber;
+    try {
+        plotted = await plot(content, format, detection.side === 'board');
+    } catch (e) {
+        console.warn(`Skipping ${filename}: Gerber could not be read`, e);
+        return { layers: [] };
+    }
+    if (plotted.board?.gaps.length) console.warn(`${filename}: outline has ${plotted.board.gaps.length} open run(s)`, plotted.board.gaps);
+
+    return {
+        layers: [{
+            ...layer,
+            content: plotted.content,
+            bounds: plotted.bounds,
+            outline: plotted.board?.contours.length ? plotted.board.path : undefined,
+            gerber: { text: content, detected: format, warnings },
+            nets: plotted.nets,
+            components: plotted.components
+        }],
+        board: plotted.board
+    };
+};
+
+const buildProject = async (sources: SourceFile[], fallbackName: string, sourceType: PCBFileSource, plot: GerberPlotter): Promise<PCBProject> => {
+    // A job file, when present, is the authoritative description of the stack
+    const jobSource = sources.find(s => /\.gbrjob$/i.test(s.name));
+    const job = jobSource ? parseGerberJob(jobSource.content) : null;
+
+    // Files are read side by side (Gerbers plot in parallel), then kept in file order
+    const read = await Promise.all(sources.filter(s => !/\.gbrjob$/i.test(s.name)).map(s => readSource(s, job, plot)));
+
+    const layers = read.flatMap(r => r.layers);
+    // The first outline layer is the board
+    const board = read.find(r => r.board)?.board;
+    const svgGeometry = new Map<PCBLayer, Polygon[]>();
+    read.forEach(r => { if (r.polygons) svgGeometry.set(r.layers[0], r.polygons); });
+
+    const svgFrame = svgGeometry.size > 0 ? placeSvgLayers(svgGeometry, svgGeometry.size === layers.length) : null;
+
+    return {
+        id: crypto.randomUUID(),
+        name: job?.projectName || fallbackName,
+        sourceType,
+        layers,
+        width: job?.width ?? svgFrame?.width ?? 0,
+        height: job?.height ?? svgFrame?.height ?? 0,
+        revision: job?.revision,
+        boardThickness: job?.boardThickness,
+        copperLayerCount: job?.copperLayerCount,
+        board
+    };
+};
+
+const detectFromFilename = (filename: string): LayerDetection => {
+    const lowerName = filename.toLowerCase();
+    for (const [pattern, info] of Object.entries(LAYER_HEURISTICS)) {
+        if (lowerName.includes(pattern)) {
+            return info;
         }
+    }
+    return { type: 'Unknown', side: 'internal' };
+};
 
-        const layer: PCBLayer = {
-            id: layerId,
-            name: filename,
-            type: detection.type,
-            side: detection.side as any,
-            content: path,
-            visible: detection.side !== 'internal',
-            color: getDefaultColor(detection.type),
-            mirrored: detection.side === 'back',
-            inverted: false,
-            speed: 100,
-            power: 20,
-            frequency: 40,
-            sourceFormat,
-            bounds: layerBounds,
-            invertPadding: 2,
-            outline: outline,
-            simplifiedContent: simplifiedContent
-        };
-        layers.push(layer);
+/**
+ * KiCad and Inkscape plot layers onto a full page, so SVG coordinates carry the page
+ * offset. When the drop is SVG only, move every layer by the same amount so the board
+ * (its Edge.Cuts layer, or else everything) starts at the origin. Returns that frame.
+ */
+const placeSvgLayers = (geometry: Map<PCBLayer, Polygon[]>, removeOffset: boolean): Bounds => {
+    const edge = Array.from(geometry.keys()).find(l => l.side === 'board');
+    const frame = polygonsBounds(edge ? geometry.get(edge)! : Array.from(geometry.values()).flat());
+    if (!removeOffset || (frame.x === 0 && frame.y === 0)) return frame;
+
+    const shift = translate(-frame.x, -frame.y);
+    geometry.forEach((polygons, layer) => {
+        const moved = transformPolygons(polygons, shift);
+        layer.content = polygonsToPath(moved);
+        layer.bounds = polygonsBounds(moved);
+    });
+    return { ...frame, x: 0, y: 0 };
+};
+
+// "Board-F_Cu.svg" + "Board-B_Cu.svg" -> "Board"
+const projectNameFromFiles = (names: string[]): string => {
+    const stems = names.map(n => n.split(/[\\/]/).pop()!.replace(/\.[^.]+$/, ''));
+    if (stems.length === 0) return 'Untitled';
+    let prefix = stems[0];
+    for (const stem of stems.slice(1)) {
+        while (prefix && !stem.startsWith(prefix)) prefix = prefix.slice(0, -1);
     }
+    return prefix.replace(/[-_.\s]+$/, '') || stems[0];
+};
+
+const buildDrillLayers = (filename: string, content: string): PCBLayer[] => {
+    const groups = splitByPlating(parseExcellon(content, filename));
 
-    return layers;
+    return groups.map(drill => ({
+        id: crypto.randomUUID(),
+        name: groups.length > 1 ? `${filename} (${drill.plating})` : filename,
+        type: 'Drill',
+        side: 'board' as const,
+        content: drillToPath(drill, 'pilot'),
+        visible: true,
+        color: getDefaultColor('Drill'),
+        mirrored: false,
+        inverted: false,
+        speed: 100,
+        power: 20,
+        frequency: 40,
+        sourceFormat: 'gerber' as const,
+        bounds: drillBounds(drill),
+        invertPadding: 0,
+        drill,
+        drillMode: 'pilot' as const,
+        pilotDiameter: DEFAULT_PILOT_DIAMETER
+    }));
 };
 
 const getDefaultColor = (type: string): string => {
+    if (type === 'Drill') return '#60a5fa'; // Blue drill hits
     if (type.includes('Cu')) return '#b87333'; // Copper color
     if (type.includes('Silk')) return '#ffffff'; // White silk
     if (type.includes('Mask')) return '#006400'; // Green mask
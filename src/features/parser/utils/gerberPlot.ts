@@ -0,0 +1,46 @@
+import { BoardShape, GerberFormat, LayerFeature } from '~types/pcb';
+import { readGerber } from './gerberImage';
+import { renderAttributeGroups, renderGerberImage } from './gerberRenderer';
+import { reconstructOutline } from './boardOutline';
+import { Bounds, Polygon, polygonsBounds, polygonsToPath, signedArea } from './geometry';
+
+/**
+ * Gerber plotting
+ *
+ * Turns a Gerber file into layer content: read, rendered, and written out as path data
+ * with its net and component features. DOM-free, so it runs in the geometry workers.
+ */
+
+export interface PlottedGerber {
+    content: string;
+    bounds: Bounds;
+    board?: BoardShape; // Outline layers only
+    nets?: LayerFeature[];
+    components?: LayerFeature[];
+}
+
+// Groups of an object attribute as layer features, largest area first
+const attributeFeatures = (groups: Map<string, Polygon[]>): LayerFeature[] | undefined => {
+    if (groups.size === 0) return undefined;
+    const area = (polygons: Polygon[]) => polygons.reduce((sum, p) => sum + signedArea(p), 0);
+    return Array.from(groups, ([name, polygons]) => ({ name, polygons, area: area(polygons) }))
+        .sort((a, b) => b.area - a.area)
+        .map(({ name, polygons }) => ({ name, path: polygonsToPath(polygons) }));
+};
+
+/**
+ * Plot a Gerber file using the given coordinate format. Runs at import
+ * with the detected format and again whenever the user overrides a layer's format.
+ * Outline layers also get the board shape rebuilt from their strokes.
+ */
+export const plotGerber = (content: string, format: GerberFormat, isOutline: boolean = false): PlottedGerber => {
+    const image = readGerber(content, format);
+    const polygons = renderGerberImage(image);
+    return {
+        content: polygonsToPath(polygons),
+        bounds: polygonsBounds(polygons),
+        board: isOutline ? reconstructOutline(image) : undefined,
+        nets: attributeFeatures(renderAttributeGroups(image, '.N', polygons)),
+        components: attributeFeatures(renderAttributeGroups(image, '.C', polygons))
+    };
+};
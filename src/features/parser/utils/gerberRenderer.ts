@@ -0,0 +1,133 @@
+import {
+    Point,
+    Polygon,
+    arcPoints,
+    difference,
+    intersection,
+    multiply,
+    scale,
+    signedArea,
+    strokePolyline,
+    sweepRect,
+    transformPolygons,
+    translate,
+    union
+} from './geometry';
+import { aperturePolygons, penWidth } from './apertures';
+import { GerberAperture, GerberImage, GerberObject, ImagePolarity, PathSegment, RegionContour } from './gerberImage';
+
+/**
+ * Gerber image to polygons
+ *
+ * Renders the intermediate model into the final filled image: flashes place the aperture
+ * shape, draws sweep it along the path, regions fill their contours, and polarity is
+ * resolved in order. Output is mm in board space with holes as negative contours.
+ */
+
+// Segment end points, with arcs flattened; the start point is not included
+export const segmentPoints = (from: Point, segment: PathSegment): Point[] => segment.type === 'line'
+    ? [segment.to]
+    // Board space is Y down, which turns the board's clockwise into increasing angles
+    : arcPoints(from, segment.to, segment.centre, !segment.clockwise);
+
+export const contourPoints = (contour: RegionContour): Point[] => {
+    const points = [contour.start];
+    for (const segment of contour.segments) points.push(...segmentPoints(points[points.length - 1], segment));
+    return points;
+};
+
+// Region contours count as filled whichever way they wind
+const orient = (contour: Polygon): Polygon => signedArea(contour) < 0 ? contour.slice().reverse() : contour;
+
+/**
+ * Resolve the objects into the final image. Dark objects add, clear objects erase
+ * everything before them; consecutive objects of one polarity are merged in a single
+ * boolean so all-dark files cost one union.
+ */
+const resolveImage = (objects: { polarity: ImagePolarity; polygons: Polygon[] }[]): Polygon[] => {
+    let image: Polygon[] = [];
+    let run: Polygon[] = [];
+    let runPolarity: ImagePolarity = 'dark';
+
+    const flush = () => {
+        if (run.length === 0) return;
+        image = runPolarity === 'dark' ? union([...image, ...run]) : difference(image, run);
+        run = [];
+    };
+
+    for (const object of objects) {
+        if (object.polarity !== runPolarity) {
+            flush();
+            runPolarity = object.polarity;
+        }
+        run.push(...object.polygons);
+    }
+    flush();
+    return image;
+};
+
+/**
+ * Render one graphics object, with aperture shapes taken from (and added to) `shapes`.
+ */
+const objectPolygons = (
+    object: GerberObject,
+    image: GerberImage,
+    shapes: Map<GerberAperture, Polygon[] | null>
+): Polygon[] => {
+    const s = image.unitScale;
+
+    if (object.kind === 'flash') {
+        if (!shapes.has(object.aperture)) shapes.set(object.aperture, aperturePolygons(object.aperture, image.macros));
+        const shape = shapes.get(object.aperture);
+        if (!shape || shape.length === 0) return [];
+        // Aperture shapes are in file units, Y up
+        return transformPolygons(shape, multiply(translate(object.at.x, object.at.y), scale(s, -s)));
+    }
+
+    if (object.kind === 'draw') {
+        // Expand the stroke by its aperture into a filled outline, so the exported copper
+        // has the real trace width rather than a hairline
+        const { aperture } = object;
+        const points = [object.from, ...segmentPoints(object.from, object.segment)];
+        if (aperture.shape === 'rect') {
+            return sweepRect(points, aperture.params[0] * s, aperture.params[1] * s);
+        }
+        // Circles give round caps; anything else is drawn as a round pen of its size
+        const width = penWidth(aperture, image.macros) * s;
+        return width > 0 ? strokePolyline(points, width, 'round') : [];
+    }
+
+    const contours = object.contours.map(contourPoints).filter(c => c.length >= 3).map(orient);
+    return contours.length > 0 ? union(contours) : [];
+};
+
+export const renderGerberImage = (image: GerberImage, objects: GerberObject[] = image.objects): Polygon[] => {
+    const shapes = new Map<GerberAperture, Polygon[] | null>();
+    return resolveImage(objects.map(object => ({
+        polarity: object.polarity,
+        polygons: objectPolygons(object, image, shapes)
+    })));
+};
+
+/**
+ * Image of each value of an object attribute, e.g. every net ('.N') or component ('.C').
+ * A clear object erases whatever lies under it whichever group it belongs to, so when the
+ * file has any, each group is trimmed to the final image.
+ */
+export const renderAttributeGroups = (image: GerberImage, attribute: string, finalImage: Polygon[]): Map<string, Polygon[]> => {
+    const members = new Map<string, GerberObject[]>();
+    for (const object of image.objects) {
+        const name = object.attributes[attribute]?.[0];
+        if (!name || object.polarity === 'clear') continue;
+        if (!members.has(name)) members.set(name, []);
+        members.get(name)!.push(object);
+    }
+
+    const hasClear = image.objects.some(o => o.polarity === 'clear');
+    const groups = new Map<string, Polygon[]>();
+    members.forEach((objects, name) => {
+        const polygons = renderGerberImage(image, objects);
+        groups.set(name, hasClear ? intersection(polygons, finalImage) : polygons);
+    });
+    return groups;
+};
@@ -0,0 +1,151 @@
+import { LayerPolarity, LayerSide } from '~types/pcb';
+
+/**
+ * Gerber X2 attribute helpers
+ *
+ * X2 files describe their own function (`%TF.FileFunction,Copper,L2,Inr*%`) and the
+ * accompanying `.gbrjob` lists the same attributes for every file plus the board specs.
+ * Both are more reliable than guessing from filenames.
+ */
+
+export interface LayerDetection {
+    type: string;
+    side: LayerSide;
+    copperIndex?: number;
+    polarity?: LayerPolarity;
+}
+
+export interface GerberJob {
+    projectName?: string;
+    revision?: string;
+    width?: number; // mm
+    height?: number; // mm
+    boardThickness?: number; // mm
+    copperLayerCount?: number;
+    files: Map<string, LayerDetection>; // keyed by lower-cased basename
+}
+
+const sideFromToken = (token: string | undefined): LayerSide => {
+    const t = (token || '').toLowerCase();
+    if (t === 'top') return 'front';
+    if (t === 'bot') return 'back';
+    return 'internal';
+};
+
+const prefixForSide = (side: LayerSide): string => side === 'back' ? 'B' : 'F';
+
+/**
+ * Map a FileFunction value (the part after `FileFunction,`) onto our layer naming.
+ * Returns null for functions we don't recognise so callers can fall back to heuristics.
+ */
+export const parseFileFunction = (fileFunction: string): LayerDetection | null => {
+    const fields = fileFunction.split(',').map(f => f.trim());
+    const kind = fields[0].toLowerCase();
+
+    switch (kind) {
+        case 'copper': {
+            const index = parseInt((fields[1] || '').replace(/^L/i, ''), 10);
+            const side = sideFromToken(fields[2]);
+            const copperIndex = isNaN(index) ? undefined : index;
+            if (side === 'internal') {
+                return { type: copperIndex ? `In${copperIndex - 1}.Cu` : 'In.Cu', side, copperIndex };
+            }
+            return { type: `${prefixForSide(side)}.Cu`, side, copperIndex };
+        }
+        case 'soldermask': {
+            const side = sideFromToken(fields[1]);
+            return { type: `${prefixForSide(side)}.Mask`, side };
+        }
+        case 'legend': {
+            const side = sideFromToken(fields[1]);
+            return { type: `${prefixForSide(side)}.SilkS`, side };
+        }
+        case 'paste':
+        case 'solderpaste': {
+            const side = sideFromToken(fields[1]);
+            return { type: `${prefixForSide(side)}.Paste`, side };
+        }
+        case 'assemblydrawing': {
+            const side = sideFromToken(fields[1]);
+            return { type: `${prefixForSide(side)}.Fab`, side };
+        }
+        case 'profile':
+            return { type: 'Edge.Cuts', side: 'board' };
+        case 'plated':
+        case 'nonplated':
+            return { type: 'Drill', side: 'board' };
+        case 'other':
+        case 'otherdrawing':
+            // KiCad writes `Other,User` for most user layers, `Other,Comment` / `Other,ECO1` for the rest
+            return { type: fields[1] && fields[1].toLowerCase() !== 'user' ? `User.${fields[1]}` : 'User', side: 'internal' };
+        default:
+            return null;
+    }
+};
+
+export const parsePolarity = (value: string | undefined): LayerPolarity | undefined => {
+    if (!value) return undefined;
+    const v = value.trim().toLowerCase();
+    if (v === 'positive' || v === 'negative') return v;
+    return undefined;
+};
+
+/**
+ * Collect the file attributes (`%TF.<name>,<value>*%`) of a Gerber file.
+ */
+export const readFileAttributes = (content: string): Record<string, string> => {
+    const attributes: Record<string, string> = {};
+    const re = /%TF\.([A-Za-z]+),([^*]*)\*%/g;
+    let match;
+    while ((match = re.exec(content)) !== null) {
+        attributes[match[1]] = match[2];
+    }
+    return attributes;
+};
+
+/**
+ * Layer detection from the file's own X2 header, or null for X1 / attribute-less files.
+ */
+export const detectFromFileAttributes = (content: string): LayerDetection | null => {
+    const attributes = readFileAttributes(content);
+    if (!attributes.FileFunction) return null;
+
+    const detection = parseFileFunction(attributes.FileFunction);
+    if (!detection) return null;
+    return { ...detection, polarity: parsePolarity(attributes.FilePolarity) };
+};
+
+export const basename = (path: string): string => path.split(/[\\/]/).pop()!.toLowerCase();
+
+/**
+ * Parse a Gerber X2 job file (`.gbrjob`, JSON).
+ */
+export const parseGerberJob = (json: string): GerberJob | null => {
+    let data: any;
+    try {
+        data = JSON.parse(json);
+    } catch (err) {
+        console.warn('Invalid Gerber job file, ignoring', err);
+        return null;
+    }
+
+    const specs = data?.GeneralSpecs || {};
+    const files = new Map<string, LayerDetection>();
+
+    for (const entry of (data?.FilesAttributes || []) as any[]) {
+        if (!entry?.Path || !entry.FileFunction) continue;
+        const detection = parseFileFunction(entry.FileFunction);
+        if (!detection) continue;
+        files.set(basename(entry.Path), { ...detection, polarity: parsePolarity(entry.FilePolarity) });
+    }
+
+    return {
+        projectName: specs.ProjectId?.Name,
+        revision: specs.ProjectId?.Revision,
+        width: typeof specs.Size?.X === 'number' ? specs.Size.X : undefined,
+        height: typeof specs.Size?.Y === 'number' ? specs.Size.Y : undefined,
+        boardThickness: typeof specs.BoardThickness === 'number' ? specs.BoardThickness : undefined,
+        copperLayerCount: typeof specs.LayerNumber === 'number' ? specs.LayerNumber : undefined,
+        files
+    };
+};
@@ -1,37 +1,635 @@
-import { PCBLayer } from '~types/pcb';
+import { DrillHit, DrillPlating, DrillTool, LayerSide, PCBLayer, PCBProject } from '~types/pcb';
+import { DEFAULT_PILOT_DIAMETER, drillBounds, drillToPath, splitByPlating } from './excellonParser';
+import {
+    Point,
+    Polygon,
+    Matrix,
+    LineCap,
+    IDENTITY,
+    multiply,
+    translate,
+    rotate,
+    scale,
+    transformPolygons,
+    arcPoints,
+    circlePolygon,
+    rectPolygon,
+    signedArea,
+    strokePolyline,
+    union,
+    difference,
+    polygonsToPath,
+    polygonsBounds
+} from './geometry';
 
-export const parseIPC2581 = async (file: File): Promise<PCBLayer[]> => {
+/**
+ * IPC-2581 importer
+ *
+ * Reads the standard/user primitive dictionaries and line descriptions from `Content`,
+ * then walks `Ecad/CadData/Step/LayerFeature` sets (pads, lines, arcs, polylines,
+ * contours, holes) into one unioned polygon set per layer. Drill layers also keep their
+ * holes and slots as drill data, so they behave like Excellon layers.
+ * Output is SVG path data in mm, board space (Y down), like the Gerber and drill layers.
+ */
+
+// A hole or slot of a drill layer, in IPC coordinates (Y up)
+interface IPCDrillHit {
+    diameter: number;
+    plating: DrillPlating;
+    x: number;
+    y: number;
+    endX?: number;
+    endY?: number;
+}
+
+interface LineDesc {
+    width: number;
+    cap: LineCap;
+}
+
+// Geometry of a dictionary entry around its own origin (IPC coordinates, Y up)
+type Primitive = Polygon[];
+
+const UNIT_SCALE: Record<string, number> = {
+    MILLIMETER: 1,
+    MICRON: 0.001,
+    INCH: 25.4
+};
+
+const elementChildren = (el: Element): Element[] => {
+    const result: Element[] = [];
+    for (let i = 0; i < el.childNodes.length; i++) {
+        const node = el.childNodes[i];
+        if (node.nodeType === 1) result.push(node as Element);
+    }
+    return result;
+};
+
+const nameOf = (el: Element): string => el.localName || el.nodeName;
+
+const findChild = (el: Element, name: string): Element | undefined =>
+    elementChildren(el).find(c => nameOf(c) === name);
+
+const findAll = (root: Document | Element, name: string): Element[] =>
+    Array.from(root.getElementsByTagName(name));
+
+const num = (el: Element, attr: string, fallback: number = 0): number => {
+    const v = el.getAttribute(attr);
+    if (v === null || v === '') return fallback;
+    const n = parseFloat(v);
+    return isNaN(n) ? fallback : n;
+};
+
+const unitsOf = (el: Element | undefined | null): number => {
+    const u = el?.getAttribute('units')?.toUpperCase();
+    return (u && UNIT_SCALE[u]) || 1;
+};
+
+/**
+ * Orient a simple polygon counter-clockwise so non-zero unions of many features behave.
+ */
+const oriented = (poly: Polygon): Polygon => signedArea(poly) < 0 ? [...poly].reverse() : poly;
+
+// VIA and PLATED holes are plated through, NONPLATED are not
+const platingOf = (el: Element): DrillPlating =>
+    (el.getAttribute('platingStatus') || '').toUpperCase() === 'NONPLATED' ? 'NPTH' : 'PTH';
+
+/**
+ * A slot cavity's outline as a routed slot. The outline is symmetric about the slot's
+ * axis, so the principal axis of its points is the slot's length; the extent across it is
+ * the width.
+ */
+const slotFromOutline = (points: Point[]): Omit<IPCDrillHit, 'plating'> | null => {
+    if (points.length < 3) return null;
+    const cx = points.reduce((sum, p) => sum + p.x, 0) / points.length;
+    const cy = points.reduce((sum, p) => sum + p.y, 0) / points.length;
+    let sxx = 0, syy = 0, sxy = 0;
+    for (const p of points) {
+        sxx += (p.x - cx) ** 2;
+        syy += (p.y - cy) ** 2;
+        sxy += (p.x - cx) * (p.y - cy);
+    }
+    const angle = Math.atan2(2 * sxy, sxx - syy) / 2;
+    const ux = Math.cos(angle), uy = Math.sin(angle);
+
+    const along = points.map(p => (p.x - cx) * ux + (p.y - cy) * uy);
+    const across = points.map(p => (p.y - cy) * ux - (p.x - cx) * uy);
+    const diameter = Math.max(...across) - Math.min(...across);
+    const mid = (Math.max(...along) + Math.min(...along)) / 2;
+    const half = Math.max(0, (Math.max(...along) - Math.min(...along) - diameter) / 2);
+    return {
+        diameter,
+        x: cx + ux * (mid - half),
+        y: cy + uy * (mid - half),
+        endX: cx + ux * (mid + half),
+        endY: cy + uy * (mid + half)
+    };
+};
+
+class IPCGeometryReader {
+    private primitives = new Map<string, Primitive>();
+    private lineDescs = new Map<string, LineDesc>();
+
+    constructor(private doc: Document, private cadUnits: number) {
+        this.readLineDescs();
+        this.readDictionaries();
+    }
+
+    // --- Dictionaries ---
+
+    private readLineDescs() {
+        for (const dict of findAll(this.doc, 'DictionaryLineDesc')) {
+            const u = unitsOf(dict);
+            for (const entry of findAll(dict, 'EntryLineDesc')) {
+                const desc = findChild(entry, 'LineDesc');
+                const id = entry.getAttribute('id');
+                if (id && desc) this.lineDescs.set(id, this.parseLineDesc(desc, u));
+            }
+        }
+    }
+
+    private parseLineDesc(desc: Element, u: number): LineDesc {
+        const end = (desc.getAttribute('lineEnd') || 'ROUND').toUpperCase();
+        return {
+            width: num(desc, 'lineWidth') * u,
+            cap: end === 'SQUARE' ? 'square' : end === 'NONE' ? 'butt' : 'round'
+        };
+    }
+
+    private readDictionaries() {
+        for (const dict of findAll(this.doc, 'DictionaryStandard')) {
+            const u = unitsOf(dict);
+            for (const entry of findAll(dict, 'EntryStandard')) {
+                const id = entry.getAttribute('id');
+                const shape = elementChildren(entry)[0];
+                if (!id || !shape) continue;
+                const polys = this.standardPrimitive(shape, u);
+                if (polys) this.primitives.set(id, polys);
+            }
+        }
+
+        for (const dict of findAll(this.doc, 'DictionaryUser')) {
+            const u = unitsOf(dict);
+            for (const entry of findAll(dict, 'EntryUser')) {
+                const id = entry.getAttribute('id');
+                const special = findChild(entry, 'UserSpecial');
+                if (!id || !special) continue;
+                const polys: Polygon[] = [];
+                elementChildren(special).forEach(child => polys.push(...this.featureShape(child, u)));
+                this.primitives.set(id, polys);
+            }
+        }
+    }
+
+    /**
+     * Standard primitives, centred on their origin.
+     */
+    private standardPrimitive(shape: Element, u: number): Primitive | null {
+        const w = num(shape, 'width') * u;
+        const h = num(shape, 'height') * u;
+
+        switch (nameOf(shape)) {
+            case 'Circle':
+                return [circlePolygon(0, 0, num(shape, 'diameter') * u / 2)];
+            case 'RectCenter':
+                return [rectPolygon(0, 0, w, h)];
+            case 'RectCorner': {
+                const x0 = num(shape, 'lowerLeftX') * u, y0 = num(shape, 'lowerLeftY') * u;
+                const x1 = num(shape, 'upperRightX') * u, y1 = num(shape, 'upperRightY') * u;
+                return [rectPolygon((x0 + x1) / 2, (y0 + y1) / 2, x1 - x0, y1 - y0)];
+            }
+            case 'RectRound': {
+                const r = Math.min(num(shape, 'radius') * u, w / 2, h / 2);
+                return union([
+                    rectPolygon(0, 0, w - 2 * r, h),
+                    rectPolygon(0, 0, w, h - 2 * r),
+                    ...[[1, 1], [-1, 1], [-1, -1], [1, -1]].map(([sx, sy]) =>
+                        circlePolygon(sx * (w / 2 - r), sy * (h / 2 - r), r))
+                ].map(oriented));
+            }
+            case 'RectCham': {
+                const c = Math.min(num(shape, 'chamfer') * u, w / 2, h / 2);
+                const hw = w / 2, hh = h / 2;
+                return [[
+                    { x: -hw + c, y: -hh }, { x: hw - c, y: -hh }, { x: hw, y: -hh + c }, { x: hw, y: hh - c },
+                    { x: hw - c, y: hh }, { x: -hw + c, y: hh }, { x: -hw, y: hh - c }, { x: -hw, y: -hh + c }
+                ]];
+            }
+            case 'Oval': {
+                const horizontal = w >= h;
+                const d = Math.min(w, h);
+                const half = (Math.max(w, h) - d) / 2;
+                const a = horizontal ? { x: -half, y: 0 } : { x: 0, y: -half };
+                const b = horizontal ? { x: half, y: 0 } : { x: 0, y: half };
+                return strokePolyline([a, b], d, 'round');
+            }
+            case 'Ellipse': {
+                const circle = circlePolygon(0, 0, 1);
+                return [circle.map(p => ({ x: p.x * w / 2, y: p.y * h / 2 }))];
+            }
+            case 'Diamond':
+                return [[{ x: 0, y: -h / 2 }, { x: w / 2, y: 0 }, { x: 0, y: h / 2 }, { x: -w / 2, y: 0 }]];
+            case 'Triangle': {
+                const base = num(shape, 'base') * u;
+                return [[{ x: -base / 2, y: -h / 2 }, { x: base / 2, y: -h / 2 }, { x: 0, y: h / 2 }]];
+            }
+            case 'Hexagon':
+            case 'Octagon': {
+                const n = nameOf(shape) === 'Hexagon' ? 6 : 8;
+                const r = num(shape, 'length') * u / 2;
+                const poly: Polygon = [];
+                for (let i = 0; i < n; i++) {
+                    const a = (i / n) * Math.PI * 2 + (n === 8 ? Math.PI / 8 : 0);
+                    poly.push({ x: r * Math.cos(a), y: r * Math.sin(a) });
+                }
+                return [poly];
+            }
+            case 'Donut':
+            case 'Thermal': {
+                const outer = num(shape, 'outerDiameter') * u / 2;
+                const inner = num(shape, 'innerDiameter') * u / 2;
+                const ring = difference([circlePolygon(0, 0, outer)], [circlePolygon(0, 0, inner)]);
+                if (nameOf(shape) === 'Donut') return ring;
+
+                const spokes = num(shape, 'spokeCount', 4);
+                const spokeWidth = num(shape, 'spokeWidth') * u;
+                const start = num(shape, 'spokeStartAngle');
+                const cuts: Polygon[] = [];
+                for (let i = 0; i < spokes; i++) {
+                    const bar = rectPolygon(outer * 0.55, 0, outer * 1.1, spokeWidth);
+                    cuts.push(transformPolygons([bar], rotate(start + (360 / spokes) * i))[0]);
+                }
+                return difference(ring, cuts);
+            }
+            case 'Contour':
+                return this.contour(shape, u);
+            default:
+                return null;
+        }
+    }
+
+    // --- Polygons / polylines ---
+
+    /**
+     * Points of a Polygon / Polyline element (PolyBegin + PolyStepSegment / PolyStepCurve).
+     */
+    private polyPoints(el: Element, u: number): Point[] {
+        const points: Point[] = [];
+        for (const step of elementChildren(el)) {
+            const p = { x: num(step, 'x') * u, y: num(step, 'y') * u };
+            switch (nameOf(step)) {
+                case 'PolyBegin':
+                case 'PolyStepSegment':
+                    points.push(p);
+                    break;
+                case 'PolyStepCurve': {
+                    const start = points[points.length - 1] ?? p;
+                    const center = { x: num(step, 'centerX') * u, y: num(step, 'centerY') * u };
+                    const clockwise = step.getAttribute('clockwise') === 'true';
+                    points.push(...arcPoints(start, p, center, clockwise));
+                    break;
+                }
+            }
+        }
+        return points;
+    }
+
+    private contour(el: Element, u: number): Polygon[] {
+        const outline = findChild(el, 'Polygon');
+        if (!outline) return [];
+        const outer = [oriented(this.polyPoints(outline, u))];
+        const cutouts = elementChildren(el)
+            .filter(c => nameOf(c) === 'Cutout')
+            .map(c => oriented(this.polyPoints(c, u)));
+        return cutouts.length > 0 ? difference(outer, cutouts) : outer;
+    }
+
+    private lineDescFor(el: Element, u: number): LineDesc {
+        const ref = findChild(el, 'LineDescRef');
+        if (ref) {
+            const desc = this.lineDescs.get(ref.getAttribute('id') || '');
+            if (desc) return desc;
+        }
+        const inline = findChild(el, 'LineDesc');
+        if (inline) return this.parseLineDesc(inline, u);
+        return { width: 0, cap: 'round' };
+    }
+
+    /**
+     * Shape of a single feature element (line, arc, polyline, contour, primitive, hole).
+     */
+    private featureShape(el: Element, u: number): Polygon[] {
+        switch (nameOf(el)) {
+            case 'Line': {
+                const desc = this.lineDescFor(el, u);
+                const a = { x: num(el, 'startX') * u, y: num(el, 'startY') * u };
+                const b = { x: num(el, 'endX') * u, y: num(el, 'endY') * u };
+                return strokePolyline([a, b], desc.width, desc.cap);
+            }
+            case 'Arc': {
+                const desc = this.lineDescFor(el, u);
+                const a = { x: num(el, 'startX') * u, y: num(el, 'startY') * u };
+                const b = { x: num(el, 'endX') * u, y: num(el, 'endY') * u };
+                const c = { x: num(el, 'centerX') * u, y: num(el, 'centerY') * u };
+                const pts = [a, ...arcPoints(a, b, c, el.getAttribute('clockwise') === 'true')];
+                return strokePolyline(pts, desc.width, desc.cap);
+            }
+            case 'Polyline': {
+                const desc = this.lineDescFor(el, u);
+                return strokePolyline(this.polyPoints(el, u), desc.width, desc.cap);
+            }
+            case 'Outline': {
+                const polygon = findChild(el, 'Polygon');
+                if (!polygon) return [];
+                const desc = this.lineDescFor(el, u);
+                const pts = this.polyPoints(polygon, u);
+                if (pts.length > 0) pts.push(pts[0]);
+                return strokePolyline(pts, desc.width, desc.cap);
+            }
+            case 'Contour':
+                return this.contour(el, u);
+            case 'Hole':
+                return [circlePolygon(num(el, 'x') * u, num(el, 'y') * u, num(el, 'diameter') * u / 2)];
+            case 'StandardPrimitiveRef':
+            case 'UserPrimitiveRef':
+                return this.primitives.get(el.getAttribute('id') || '') ?? [];
+            default:
+                return this.standardPrimitive(el, u) ?? [];
+        }
+    }
+
+    // --- Placement ---
+
+    /**
+     * Local -> IPC coordinates for a Pad / Features element (Location + Xform).
+     */
+    private placement(el: Element, u: number): Matrix {
+        const location = findChild(el, 'Location');
+        const xform = findChild(el, 'Xform');
+
+        let m: Matrix = IDENTITY;
+        if (location) m = multiply(m, translate(num(location, 'x') * u, num(location, 'y') * u));
+        if (xform) {
+            m = multiply(m, translate(num(xform, 'xOffset') * u, num(xform, 'yOffset') * u));
+            m = multiply(m, rotate(num(xform, 'rotation')));
+            if (xform.getAttribute('mirror') === 'true') m = multiply(m, scale(-1, 1));
+            m = multiply(m, scale(num(xform, 'scale', 1)));
+        }
+        return m;
+    }
+
+    private placedShapes(el: Element, u: number): Polygon[] {
+        const m = this.placement(el, u);
+        const polys: Polygon[] = [];
+        for (const child of elementChildren(el)) {
+            const name = nameOf(child);
+            if (name === 'Location' || name === 'Xform' || name === 'PinRef') continue;
+            polys.push(...this.featureShape(child, u));
+        }
+        return m === IDENTITY ? polys : transformPolygons(polys, m);
+    }
+
+    /**
+     * All geometry of one LayerFeature, in IPC coordinates (Y up).
+     * Sets with NEGATIVE polarity are subtracted from what has been drawn so far.
+     */
+    layerFeature(el: Element): Polygon[] {
+        const u = this.cadUnits;
+        let dark: Polygon[] = [];
+        let pending: Polygon[] = [];
+
+        for (const set of elementChildren(el).filter(c => nameOf(c) === 'Set')) {
+            const polys: Polygon[] = [];
+            for (const child of elementChildren(set)) {
+                switch (nameOf(child)) {
+                    case 'Pad':
+                    case 'Features':
+                        polys.push(...this.placedShapes(child, u));
+                        break;
+                    case 'Hole':
+                        polys.push(...this.featureShape(child, u));
+                        break;
+                    case 'SlotCavity':
+                        polys.push(...this.placedShapes(child, u));
+                        break;
+                }
+            }
+
+            if ((set.getAttribute('polarity') || '').toUpperCase() === 'NEGATIVE') {
+                dark = difference(union([...dark, ...pending]), polys);
+                pending = [];
+            } else {
+                pending.push(...polys);
+            }
+        }
+
+        return union([...dark, ...pending]);
+    }
+
+    /**
+     * Holes and slot cavities of one drill LayerFeature.
+     */
+    drillHits(el: Element): IPCDrillHit[] {
+        const u = this.cadUnits;
+        const hits: IPCDrillHit[] = [];
+        for (const set of elementChildren(el).filter(c => nameOf(c) === 'Set')) {
+            for (const child of elementChildren(set)) {
+                if (nameOf(child) === 'Hole') {
+                    hits.push({ diameter: num(child, 'diameter') * u, plating: platingOf(child), x: num(child, 'x') * u, y: num(child, 'y') * u });
+                } else if (nameOf(child) === 'SlotCavity') {
+                    const slot = slotFromOutline(this.placedShapes(child, u).flat());
+                    if (slot) hits.push({ ...slot, plating: platingOf(child) });
+                }
+            }
+        }
+        return hits.filter(h => h.diameter > 0);
+    }
+
+    profile(step: Element): Polygon[] {
+        const profile = findChild(step, 'Profile');
+        return profile ? this.contour(profile, this.cadUnits) : [];
+    }
+}
+
+// IPC coordinates are Y up, board space is Y down
+const toBoardSpace = (polys: Polygon[]): Polygon[] => transformPolygons(polys, scale(1, -1));
+
+/**
+ * Drill layers of an IPC drill layer's holes, one per plating class as for Excellon files;
+ * holes of one diameter and plating share a tool.
+ */
+const buildDrillLayers = (name: string, ipcHits: IPCDrillHit[]): PCBLayer[] => {
+    const tools = new Map<string, DrillTool>();
+    const hits: DrillHit[] = ipcHits.map(h => {
+        const key = `${h.plating}:${h.diameter.toFixed(4)}`;
+        let tool = tools.get(key);
+        if (!tool) {
+            tool = { code: `T${tools.size + 1}`, diameter: h.diameter, plating: h.plating, hitCount: 0 };
+            tools.set(key, tool);
+        }
+        tool.hitCount++;
+        const hit: DrillHit = { tool: tool.code, x: h.x, y: -h.y };
+        if (h.endX !== undefined && h.endY !== undefined) {
+            hit.endX = h.endX;
+            hit.endY = -h.endY;
+        }
+        return hit;
+    });
+
+    const groups = splitByPlating({ units: 'mm', tools: Array.from(tools.values()), hits });
+    return groups.map(drill => ({
+        id: crypto.randomUUID(),
+        name: groups.length > 1 ? `${name} (${drill.plating})` : name,
+        type: 'Drill',
+        side: 'board' as const,
+        content: drillToPath(drill, 'pilot'),
+        visible: true,
+        color: '#00ff00',
+        mirrored: false,
+        inverted: false,
+        speed: 100,
+        power: 20,
+        frequency: 40,
+        sourceFormat: 'svg' as const,
+        bounds: drillBounds(drill),
+        invertPadding: 0,
+        drill,
+        drillMode: 'pilot' as const,
+        pilotDiameter: DEFAULT_PILOT_DIAMETER
+    }));
+};
+
+export const parseIPC2581 = async (file: File): Promise<PCBProject> => {
     const text = await file.text();
     const parser = new DOMParser();
     const xmlDoc = parser.parseFromString(text, 'text/xml');
 
+    const cadHeader = findAll(xmlDoc, 'CadHeader')[0];
+    const reader = new IPCGeometryReader(xmlDoc, unitsOf(cadHeader));
+
+    // Layer definitions (function / side / polarity) from CadData
+    const layerDefs = new Map<string, Element>();
+    findAll(xmlDoc, 'Layer').forEach(l => {
+        const name = l.getAttribute('name');
+        if (name) layerDefs.set(name, l);
+    });
+
+    // Geometry (and drill hits) per layer across all steps
+    const geometry = new Map<string, Polygon[]>();
+    const drillHits = new Map<string, IPCDrillHit[]>();
+    let profile: Polygon[] = [];
+    for (const step of findAll(xmlDoc, 'Step')) {
+        if (profile.length === 0) profile = toBoardSpace(reader.profile(step));
+        for (const feature of elementChildren(step).filter(c => nameOf(c) === 'LayerFeature')) {
+            const ref = feature.getAttribute('layerRef');
+            if (!ref) continue;
+            const polys = toBoardSpace(reader.layerFeature(feature));
+            geometry.set(ref, [...(geometry.get(ref) || []), ...polys]);
+            if (detectType(ref, layerDefs.get(ref)) === 'Drill') {
+                drillHits.set(ref, [...(drillHits.get(ref) || []), ...reader.drillHits(feature)]);
+            }
+        }
+    }
+
     const layers: PCBLayer[] = [];
     const layerRefs = xmlDoc.getElementsByTagName('LayerRef');
+    let copperIndex = 0;
 
     for (let i = 0; i < layerRefs.length; i++) {
         const layerName = layerRefs[i].getAttribute('name');
         if (!layerName) continue;
 
-        // In a real IPC-2581 parser, we would extract the Step and Features
-        // for now we'll create the layer structure
+        const def = layerDefs.get(layerName);
+        const type = detectType(layerName, def);
+        const hits = drillHits.get(layerName) ?? [];
+        if (type === 'Drill' && hits.length > 0) {
+            layers.push(...buildDrillLayers(layerName, hits));
+            continue;
+        }
+        const polys = union(geometry.get(layerName) || []);
+        const isCopper = type === 'Copper';
+        const side = detectSide(layerName, def);
+
         layers.push({
             id: crypto.randomUUID(),
             name: layerName,
-            type: detectTypeFromName(layerName),
-            side: detectSideFromName(layerName),
-            content: '', // In reality, we'd find the corresponding Step data
+            type,
+            side,
+            content: polygonsToPath(polys),
             visible: true,
             color: '#00ff00',
-            mirrored: false,
+            mirrored: side === 'back',
             inverted: layerName.includes('Cu'),
             speed: 100,
             power: 20,
             frequency: 40,
-            invertPadding: 2,
+            sourceFormat: 'svg',
+            bounds: polys.length > 0 ? polygonsBounds(polys) : undefined,
+            copperIndex: isCopper ? ++copperIndex : undefined,
+            polarity: def?.getAttribute('polarity')?.toUpperCase() === 'NEGATIVE' ? 'negative' : 'positive'
+        });
+    }
+
+    // The step profile is the board outline; add it unless a layer already covers it
+    if (profile.length > 0 && !layers.some(l => l.side === 'board' && l.type !== 'Drill')) {
+        const outline = polygonsToPath(profile);
+        layers.push({
+            id: crypto.randomUUID(),
+            name: 'Profile',
+            type: 'Edge.Cuts',
+            side: 'board',
+            content: outline,
+            visible: true,
+            color: '#cccccc',
+            mirrored: false,
+            inverted: false,
+            speed: 100,
+            power: 20,
+            frequency: 40,
+            sourceFormat: 'svg',
+            bounds: polygonsBounds(profile),
+            outline
         });
     }
 
-    return layers;
+    const boardBounds = polygonsBounds(profile);
+    const ecad = findAll(xmlDoc, 'Ecad')[0];
+
+    return {
+        id: crypto.randomUUID(),
+        name: ecad?.getAttribute('name') || file.name.replace(/\.xml$/i, ''),
+        sourceType: 'IPC2581',
+        layers,
+        width: boardBounds.width,
+        height: boardBounds.height,
+        copperLayerCount: copperIndex || undefined,
+        // The profile is already a closed polygon, with its cut-outs
+        board: profile.length > 0 ? { contours: profile, path: polygonsToPath(profile), gaps: [] } : undefined
+    };
+};
+
+const detectType = (name: string, def?: Element): string => {
+    const fn = def?.getAttribute('layerFunction')?.toUpperCase();
+    if (fn) {
+        if (['CONDUCTOR', 'SIGNAL', 'PLANE', 'MIXED', 'CONDFILM', 'CONDFOIL'].includes(fn)) return 'Copper';
+        if (fn === 'SILKSCREEN' || fn === 'LEGEND') return 'Silkscreen';
+        if (fn === 'SOLDERMASK') return 'Solder Mask';
+        if (fn === 'SOLDERPASTE' || fn === 'PASTEMASK') return 'Paste';
+        if (fn === 'DRILL') return 'Drill';
+        if (fn === 'BOARD_OUTLINE' || fn === 'ROUTE') return 'Edge.Cuts';
+    }
+    return detectTypeFromName(name);
+};
+
+const detectSide = (name: string, def?: Element): LayerSide => {
+    const type = detectType(name, def);
+    if (type === 'Drill' || type === 'Edge.Cuts') return 'board';
+
+    const side = def?.getAttribute('side')?.toUpperCase();
+    if (side === 'TOP') return 'front';
+    if (side === 'BOTTOM') return 'back';
+    if (side === 'INTERNAL') return 'internal';
+    return detectSideFromName(name);
 };
 
 const detectTypeFromName = (name: string): string => {
@@ -41,7 +639,7 @@ const detectTypeFromName = (name: string): string => {
     return 'Other';
 };
 
-const detectSideFromName = (name: string): 'front' | 'back' | 'internal' | 'board' => {
+const detectSideFromName = (name: string): LayerSide => {
     const lower = name.toLowerCase();
     if (lower.startsWith('f.') || lower.includes('top')) return 'front';
     if (lower.startsWith('b.') || lower.includes('bottom')) return 'back';
@@ -0,0 +1,62 @@
+import { HybridClearSettings, IsolationSettings } from '~types/pcb';
+import { Polygon, difference, offset, union } from './geometry';
+
+/**
+ * Isolation routing
+ *
+ * Rather than ablating everything that isn't copper, engrave a few concentric outlines
+ * around every copper shape so only a narrow moat is removed. Pass n follows the copper
+ * grown by half a tool width plus n steps, where a step is the tool width minus the overlap.
+ * Shapes closer than the moat merge, which is the narrowest gap the tool can cut anyway.
+ *
+ * Hybrid clearance adds a coarse fill of the open areas further than `distance` from any
+ * copper; the band between the moat and that distance stays as floating copper.
+ */
+
+export const DEFAULT_ISOLATION: IsolationSettings = {
+    toolWidth: 0.05,
+    passes: 3,
+    overlap: 0.2
+};
+
+export const DEFAULT_HYBRID: HybridClearSettings = {
+    distance: 1,
+    clearFar: true,
+    speed: 500,
+    power: 60,
+    lpi: 200
+};
+
+export const isolationStep = (settings: IsolationSettings): number =>
+    settings.toolWidth * (1 - Math.min(Math.max(settings.overlap, 0), 0.9));
+
+/**
+ * Total width of copper-free moat produced around each shape (mm).
+ */
+export const isolationWidth = (settings: IsolationSettings): number =>
+    settings.toolWidth + (Math.max(1, settings.passes) - 1) * isolationStep(settings);
+
+/**
+ * Tool paths (closed outlines, innermost pass first) around the given copper polygons.
+ */
+export const isolationContours = (copper: Polygon[], settings: IsolationSettings): Polygon[] => {
+    if (copper.length === 0 || settings.toolWidth <= 0 || settings.passes < 1) return [];
+
+    const merged = union(copper);
+    const step = isolationStep(settings);
+    const contours: Polygon[] = [];
+    for (let pass = 0; pass < Math.round(settings.passes); pass++) {
+        contours.push(...offset(merged, settings.toolWidth / 2 + pass * step, 'round'));
+    }
+    return contours;
+};
+
+/**
+ * Open areas of the plate further than `distance` from the copper (never closer than the
+ * isolation moat, so the coarse fill can't eat into copper the rings protect).
+ */
+export const farRegions = (copper: Polygon[], plate: Polygon[], distance: number, settings: IsolationSettings): Polygon[] => {
+    if (copper.length === 0) return plate;
+    const keepOut = offset(copper, Math.max(distance, isolationWidth(settings)), 'round');
+    return difference(plate, keepOut);
+};
@@ -0,0 +1,51 @@
+import { LaserProcess, PCBLayer, ProcessSettings } from '~types/pcb';
+import { XCSLayer, XCSProcessingType } from './xcsGenerator';
+
+/**
+ * Laser process per layer
+ *
+ * Each layer is filled, outline-engraved or cut, so one export can ablate copper, mark
+ * silkscreen and cut the board free. The settings here map onto the XCS processing types.
+ */
+
+export const PROCESSING_TYPES: Record<LaserProcess, XCSProcessingType> = {
+    fill: 'FILL_VECTOR_ENGRAVING',
+    outline: 'VECTOR_ENGRAVING',
+    cut: 'VECTOR_CUTTING'
+};
+
+// Closest scan lines the export will ask for (mm), 2540 LPI; a spacing of 0 has no LPI
+export const MIN_LINE_SPACING = 0.01;
+
+export const DEFAULT_PROCESSING: ProcessSettings = {
+    process: 'fill',
+    passes: 1,
+    kerf: 0,
+    lineSpacing: 25.4 / 300, // 300 LPI
+    scanAngle: 0,
+    bidirectional: false,
+    crossHatch: false
+};
+
+/**
+ * The layer's settings, or the default for its type: the board outline is cut, everything
+ * else filled.
+ */
+export const processingFor = (layer: PCBLayer): ProcessSettings => {
+    if (layer.processing) return layer.processing;
+    const isOutline = layer.side === 'board' && !layer.drill;
+    return isOutline ? { ...DEFAULT_PROCESSING, process: 'cut' } : DEFAULT_PROCESSING;
+};
+
+/**
+ * Export fields of an XCS layer for the given settings.
+ */
+export const processingFields = (settings: ProcessSettings): Pick<XCSLayer, 'processingType' | 'passes' | 'kerf' | 'lpi' | 'scanAngle' | 'bidirectional' | 'crossHatch'> => ({
+    processingType: PROCESSING_TYPES[settings.process],
+    passes: settings.passes,
+    kerf: settings.kerf,
+    lpi: Math.round(25.4 / Math.max(settings.lineSpacing, MIN_LINE_SPACING)),
+    scanAngle: settings.scanAngle,
+    bidirectional: settings.bidirectional,
+    crossHatch: settings.crossHatch
+});
@@ -0,0 +1,207 @@
+import { FeatureClass, MirrorAxis, PCBLayer } from '~types/pcb';
+import { contentToPolygons } from './svgParser';
+import { isolationContours, farRegions, DEFAULT_ISOLATION, DEFAULT_HYBRID } from './isolation';
+import { maskOpenings } from './maskOpenings';
+import { silkscreenGeometry } from './silkscreen';
+import { Bounds, Point, Polygon, clipPolylines, difference, intersection, offset, polygonsBounds, polygonsToPath, polylinesToPath, rectPolygon, transformPolygons } from './geometry';
+import { mirrorBounds, mirrorMatrix } from './mirror';
+import { exportsCopperImage } from './nets';
+import { featureClassPolygons } from './featureClasses';
+
+/**
+ * Per-layer geometry processing (normalization, isolation rings, hybrid clear, mask openings, silkscreen, inversion, board clipping, feature classes, mirroring)
+ *
+ * Layers come in and go out as bare path data in mm, unioned into filled polygons in
+ * between, which is what the exporter and the booleans work on.
+ * Pure and DOM-free, so the same code runs in the geometry workers and, where workers
+ * are unavailable, on the main thread.
+ */
+
+/**
+ * Area a layer is kept off: a silkscreen layer's side's mask image, grown by `expansion`
+ * into the openings that are ablated.
+ */
+export interface KeepOut {
+    content: string; // Path data
+    expansion: number; // mm
+}
+
+export type ProcessingStage = 'parsing' | 'isolating' | 'clearing' | 'opening' | 'thickening' | 'inverting' | 'clipping' | 'classifying' | 'mirroring';
+
+/**
+ * Silkscreen and mask are trimmed to the board shape, so nothing is marked on the stock
+ * around it.
+ */
+export const clipsToBoard = (layer: PCBLayer): boolean => /silk|mask/i.test(layer.type);
+
+/**
+ * How far (mm) the inversion plate extends past the board shape, or past the layer bounds
+ * when the shape isn't known. Unless set, it stops at the board edge, and leaves 2 mm
+ * around bounds, which only approximate the board.
+ */
+export const invertPadding = (layer: PCBLayer, hasBoard: boolean): number => layer.invertPadding ?? (hasBoard ? 0 : 2);
+
+/**
+ * Copper exported one display per feature class is split into them here, so export
+ * doesn't have to re-render the Gerber.
+ */
+export const classifies = (layer: PCBLayer): boolean => !!layer.featureClasses && !!layer.gerber && exportsCopperImage(layer);
+
+/**
+ * Whether a layer needs the geometry engine at all; everything else passes straight through.
+ */
+export const needsProcessing = (layer: PCBLayer, board: Polygon[] | null = null): boolean =>
+    layer.copperMode === 'isolation' || layer.copperMode === 'hybrid' || !!layer.maskOpenings || !!layer.silkscreen || layer.inverted
+    || layer.mirrored || (!!board && clipsToBoard(layer)) || classifies(layer);
+
+const mapClasses = <T, U>(classes: Partial<Record<FeatureClass, T>>, fn: (value: T) => U): Partial<Record<FeatureClass, U>> =>
+    Object.fromEntries(Object.entries(classes).map(([c, value]) => [c, fn(value as T)]));
+
+interface LayerGeometry {
+    content: Polygon[];
+    clear?: Polygon[]; // Hybrid far-area fill
+    lines?: Point[][]; // Silkscreen centre lines
+    paths?: Point[][]; // Open tool paths: isolation rings cut at the board edge
+    smallFeatures?: number;
+}
+
+// The board shape, or its bounds when the outline isn't known, grown by the layer's invert padding
+const platePolygons = (bounds: Bounds, board: Polygon[] | null, padding: number): Polygon[] => {
+    if (board) return padding > 0 ? offset(board, padding, 'round') : board;
+    return [rectPolygon(
+        bounds.x + bounds.width / 2,
+        bounds.y + bounds.height / 2,
+        bounds.width + padding * 2,
+        bounds.height + padding * 2
+    )];
+};
+
+// Isolation rings trimmed to the board. Each is clipped as an open path, as clipping them
+// as areas would merge the nested passes and trace the board edge. Rings wholly on the
+// board stay closed; the rest become open tool paths.
+const clipRings = (rings: Polygon[], board: Polygon[]): { closed: Polygon[]; open: Point[][] } => {
+    const closed: Polygon[] = [];
+    const open: Point[][] = [];
+    for (const ring of rings) {
+        const start = ring[0];
+        const atStart = (p: Point) => Math.abs(p.x - start.x) < 1e-6 && Math.abs(p.y - start.y) < 1e-6;
+        const pieces = clipPolylines([[...ring, start]], board, 'inside');
+        // The ring is split at its start; when that is on the board, rejoin the two ends.
+        // Clipper doesn't keep the direction of open paths, so both are turned to lead away from it.
+        const ends = pieces.filter(p => atStart(p[0]) || atStart(p[p.length - 1]));
+        if (pieces.length === 1 && atStart(pieces[0][0]) && atStart(pieces[0][pieces[0].length - 1])) {
+            closed.push(ring);
+        } else if (ends.length === 2) {
+            const [a, b] = ends.map(p => atStart(p[0]) ? p : [...p].reverse());
+            open.push([...a].reverse().concat(b.slice(1)), ...pieces.filter(p => !ends.includes(p)));
+        } else {
+            open.push(...pieces);
+        }
+    }
+    return { closed, open };
+};
+
+// Laser geometry of the layer in board space, before any mirroring
+const shapeLayer = (
+    layer: PCBLayer,
+    copper: Polygon[],
+    bounds: Bounds,
+    board: Polygon[] | null,
+    keepOut: Polygon[] | null,
+    onStage?: (stage: ProcessingStage) => void
+): LayerGeometry => {
+    const padding = invertPadding(layer, !!board);
+
+    // Isolation routing: outlines around the copper instead of a full clear
+    if (layer.copperMode === 'isolation' || layer.copperMode === 'hybrid') {
+        onStage?.('isolating');
+        const isolation = layer.isolation ?? DEFAULT_ISOLATION;
+        const rings = isolationContours(copper, isolation);
+        // Tool paths off the board would only mark the stock around it
+        const { closed: contours, open: paths } = board ? clipRings(rings, board) : { closed: rings, open: [] };
+
+        // Hybrid: coarse fill of the open areas, within the same plate as inversion
+        const hybrid = layer.hybrid ?? DEFAULT_HYBRID;
+        if (layer.copperMode === 'hybrid' && hybrid.clearFar) {
+            onStage?.('clearing');
+            return { content: contours, paths, clear: farRegions(copper, platePolygons(bounds, board, padding), hybrid.distance, isolation) };
+        }
+        return { content: contours, paths };
+    }
+
+    // Mask openings are ablated as drawn, whether or not the layer is set to invert
+    if (layer.maskOpenings) {
+        onStage?.('opening');
+        const openings = maskOpenings(copper, layer.maskOpenings.expansion);
+        return { content: board ? intersection(openings, board) : openings };
+    }
+
+    // Silkscreen is marked as drawn too, with its own clean-up instead of inversion
+    if (layer.silkscreen) {
+        onStage?.('thickening');
+        const silk = silkscreenGeometry(layer, copper, layer.silkscreen, layer.silkscreen.clipToMask ? keepOut : null, board);
+        return { content: silk.fill, lines: silk.lines ?? undefined, smallFeatures: silk.smallFeatures };
+    }
+
+    if (!layer.inverted) {
+        if (!board || !clipsToBoard(layer)) return { content: copper };
+        onStage?.('clipping');
+        return { content: intersection(copper, board) };
+    }
+
+    // Full clearance: plate minus copper. The result is the negative image, so the layer
+    // is no longer flagged as inverted and renders as a normal positive shape.
+    onStage?.('inverting');
+    return { content: difference(platePolygons(bounds, board, padding), copper) };
+};
+
+/**
+ * Run a layer through the engine. Mirrored layers are flipped about `mirror` last, after
+ * inversion and isolation have been worked out against the unflipped board. `board` is the
+ * board shape in board space, null when only the bounds are known. `keepOut` is the area
+ * the layer is kept off (the mask openings of a silkscreen layer's side), if any.
+ */
+export const processLayer = (
+    layer: PCBLayer,
+    bounds: Bounds,
+    mirror: MirrorAxis,
+    board: Polygon[] | null,
+    keepOut: KeepOut | null,
+    onStage?: (stage: ProcessingStage) => void
+): PCBLayer => {
+    if (!needsProcessing(layer, board)) return layer;
+
+    onStage?.('parsing');
+    const copper = contentToPolygons(layer.content);
+    let { content, clear, lines, paths, smallFeatures } = shapeLayer(layer, copper, bounds, board, keepOut ? maskOpenings(contentToPolygons(keepOut.content), keepOut.expansion) : null, onStage);
+    let classes: Partial<Record<FeatureClass, Polygon[]>> | null = null;
+    if (classifies(layer)) {
+        onStage?.('classifying');
+        classes = featureClassPolygons(layer, content);
+    }
+    let fallbackBounds = layer.bounds;
+    if (layer.mirrored) {
+        onStage?.('mirroring');
+        const m = mirrorMatrix(mirror);
+        content = transformPolygons(content, m);
+        clear = clear && transformPolygons(clear, m);
+        lines = lines && transformPolygons(lines, m);
+        paths = paths && transformPolygons(paths, m);
+        classes = classes && mapClasses(classes, c => transformPolygons(c, m));
+        fallbackBounds = fallbackBounds && mirrorBounds(fallbackBounds, mirror);
+    }
+
+    const drawn = [...content, ...(paths ?? [])];
+    return {
+        ...layer,
+        content: [polygonsToPath(content), polylinesToPath(paths ?? [])].filter(Boolean).join(' '),
+        clearContent: clear && polygonsToPath(clear),
+        silkLines: lines && polylinesToPath(lines),
+        featureClassPaths: classes ? mapClasses(classes, polygonsToPath) : undefined,
+        smallFeatures,
+        bounds: drawn.length > 0 ? polygonsBounds(drawn) : fallbackBounds,
+        sourceFormat: 'svg',
+        inverted: false,
+        mirroredAbout: layer.mirrored ? mirror : undefined
+    };
+};
@@ -0,0 +1,24 @@
+import { MaskOpeningSettings, PCBLayer } from '~types/pcb';
+import { Polygon, offset, union } from './geometry';
+
+/**
+ * Solder mask openings
+ *
+ * With UV-cured mask film the whole board is coated and cured, and the laser then ablates
+ * the film off the pads. The mask layer's image is exactly those openings; each is grown
+ * (or shrunk) by the expansion, and openings that come to overlap merge so no area is
+ * ablated twice.
+ */
+
+export const DEFAULT_MASK_OPENINGS: MaskOpeningSettings = {
+    expansion: 0.05,
+    speed: 400,
+    power: 30,
+    lpi: 500,
+    passes: 2
+};
+
+export const isMaskLayer = (layer: PCBLayer): boolean => layer.type.toLowerCase().includes('mask');
+
+export const maskOpenings = (openings: Polygon[], expansion: number): Polygon[] =>
+    expansion === 0 ? union(openings) : offset(openings, expansion, 'round');
@@ -0,0 +1,35 @@
+import { MirrorAxis, MirrorSettings } from '~types/pcb';
+import { Bounds, Matrix } from './geometry';
+
+/**
+ * Mirror axis helpers
+ *
+ * Back-side layers are flipped in board space so the exported geometry lines up with the
+ * front once the board is turned over on the laser bed.
+ */
+
+export const DEFAULT_MIRROR: MirrorSettings = { orientation: 'vertical' };
+
+/**
+ * Resolve the settings against the board, defaulting to its centre line.
+ */
+export const resolveMirrorAxis = (settings: MirrorSettings, board: Bounds): MirrorAxis => ({
+    orientation: settings.orientation,
+    position: settings.position ?? (settings.orientation === 'vertical'
+        ? board.x + board.width / 2
+        : board.y + board.height / 2)
+});
+
+export const mirrorMatrix = (axis: MirrorAxis): Matrix => axis.orientation === 'vertical'
+    ? [-1, 0, 0, 1, 2 * axis.position, 0]
+    : [1, 0, 0, -1, 0, 2 * axis.position];
+
+export const mirrorBounds = (b: Bounds, axis: MirrorAxis): Bounds => axis.orientation === 'vertical'
+    ? { ...b, x: 2 * axis.position - b.x - b.width }
+    : { ...b, y: 2 * axis.position - b.y - b.height };
+
+/**
+ * SVG transform attribute for the mirror. It is its own inverse, so the same transform
+ * puts mirrored geometry back where it sits on the physical board.
+ */
+export const mirrorTransform = (axis: MirrorAxis): string => `matrix(${mirrorMatrix(axis).join(' ')})`;
@@ -0,0 +1,67 @@
+import { NetSplit, PCBLayer } from '~types/pcb';
+import { Polygon, difference, polygonsToPath, transformPolygons } from './geometry';
+import { mirrorMatrix } from './mirror';
+import { contentToPolygons } from './svgParser';
+import { XCSLayer } from './xcsGenerator';
+
+/**
+ * Per-net export
+ *
+ * Nets the user splits off leave the layer's display and get one each, so a ground pour
+ * can run with different laser settings from the signal copper. This only applies while
+ * the layer is exported as its copper image (clearance mode, not inverted); the split
+ * copper is then cut out of the main display so nothing is lasered twice.
+ */
+
+export const netSplitFor = (layer: PCBLayer, net: string): NetSplit => ({
+    net,
+    speed: layer.speed,
+    power: layer.power,
+    frequency: layer.frequency
+});
+
+/**
+ * Whether a layer's export is its copper image, the case net splits apply to.
+ */
+export const exportsCopperImage = (layer: PCBLayer): boolean =>
+    !layer.inverted && (layer.copperMode ?? 'clearance') === 'clearance';
+
+// Copper of the layer's split nets, in board space before mirroring
+const splitNetFeatures = (layer: PCBLayer): { split: NetSplit; polygons: Polygon[] }[] =>
+    (layer.netSplits ?? []).flatMap(split => {
+        const feature = layer.nets?.find(n => n.name === split.net);
+        return feature ? [{ split, polygons: contentToPolygons(feature.path) }] : [];
+    });
+
+/**
+ * All copper split off the layer's main display, unmirrored.
+ */
+export const splitNetPolygons = (layer: PCBLayer): Polygon[] => splitNetFeatures(layer).flatMap(s => s.polygons);
+
+/**
+ * Main display content and one extra display per split net. `layer` is the processed
+ * layer (content possibly mirrored); net paths are unmirrored, so they follow it here.
+ * XCS groups displays by colour, so each split takes a fresh one from `nextColor`.
+ */
+export const splitNets = (layer: PCBLayer, nextColor: () => string): { content: string; nets: XCSLayer[] } => {
+    let splits = splitNetFeatures(layer);
+    if (splits.length === 0) return { content: layer.content, nets: [] };
+    const m = layer.mirroredAbout && mirrorMatrix(layer.mirroredAbout);
+    if (m) splits = splits.map(s => ({ ...s, polygons: transformPolygons(s.polygons, m) }));
+
+    const removed: Polygon[] = splits.flatMap(s => s.polygons);
+    const content = polygonsToPath(difference(contentToPolygons(layer.content), removed));
+
+    const nets: XCSLayer[] = splits.map(({ split, polygons }) => ({
+        name: `${layer.name} (${split.net})`,
+        paths: [polygonsToPath(polygons)],
+        visible: layer.visible,
+        color: nextColor(),
+        speed: split.speed,
+        power: split.power,
+        frequency: split.frequency,
+        passes: 1,
+        processingType: 'FILL_VECTOR_ENGRAVING'
+    }));
+    return { content, nets };
+};
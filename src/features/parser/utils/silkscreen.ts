@@ -0,0 +1,152 @@
+import { PCBLayer, SilkscreenSettings } from '~types/pcb';
+import { Point, Polygon, clipPolylines, difference, intersection, offset, polygonsBounds, signedArea, union } from './geometry';
+import { penWidth } from './apertures';
+import { GerberAperture, GerberImage, GerberObject, readGerber } from './gerberImage';
+import { renderGerberImage, segmentPoints } from './gerberRenderer';
+
+/**
+ * Silkscreen
+ *
+ * Silk artwork is drawn with hairline pens and small text, which the laser either misses or
+ * burns into blobs. Strokes thinner than the minimum line width are redrawn at it, features
+ * under the size threshold are counted (and left out if asked), and silk is kept off the
+ * pads by cutting the same side's mask openings out of it. In 'line' mode the strokes are
+ * also traced along their centres, for a single vector pass instead of a fill.
+ *
+ * Only Gerber sources know their strokes. Other formats have the thin parts of their filled
+ * image grown instead, and 'line' mode traces its outline.
+ */
+
+export const DEFAULT_SILKSCREEN: SilkscreenSettings = {
+    mode: 'fill',
+    minLineWidth: 0.15,
+    minFeatureSize: 0.3,
+    dropSmall: false,
+    clipToMask: true
+};
+
+export const isSilkLayer = (layer: PCBLayer): boolean => layer.type.toLowerCase().includes('silk');
+
+export interface SilkGeometry {
+    fill: Polygon[];
+    lines: Point[][] | null; // Centre lines, 'line' mode only
+    smallFeatures: number;
+}
+
+// Thin parts whose perimeter is under this many minimum widths are corners rounded off by the opening
+const SLIVER_PERIMETER = 4;
+// Width of the zero-area seams that join them (mm)
+const SLIVER_JOIN = 0.001;
+
+// Lines are cut this far clear of dropped features, whose outlines they may run along (mm)
+const DROP_MARGIN = 0.01;
+
+/**
+ * The aperture, made at least `minWidth` (mm) across where it is drawn with.
+ */
+const widenAperture = (aperture: GerberAperture, minWidth: number, image: GerberImage): GerberAperture => {
+    const min = minWidth / image.unitScale;
+    const [width, height] = aperture.params;
+    if (aperture.shape === 'circle') {
+        return width >= min ? aperture : { ...aperture, params: [min, ...aperture.params.slice(1)] };
+    }
+    if (aperture.shape === 'rect') {
+        return width >= min && height >= min ? aperture
+            : { ...aperture, params: [Math.max(width, min), Math.max(height, min), ...aperture.params.slice(2)] };
+    }
+    // Anything else is drawn as a round pen of its size
+    return penWidth(aperture, image.macros) >= min ? aperture : { ...aperture, shape: 'circle', params: [min] };
+};
+
+// The image's objects, with dark strokes drawn at least `minWidth` wide
+const thickenStrokes = (image: GerberImage, minWidth: number): GerberObject[] => {
+    const widened = new Map<GerberAperture, GerberAperture>();
+    return image.objects.map(o => {
+        if (o.kind !== 'draw' || o.polarity !== 'dark') return o;
+        if (!widened.has(o.aperture)) widened.set(o.aperture, widenAperture(o.aperture, minWidth, image));
+        return { ...o, aperture: widened.get(o.aperture)! };
+    });
+};
+
+const perimeter = (contour: Polygon): number =>
+    contour.reduce((sum, p, i) => sum + Math.hypot(contour[(i + 1) % contour.length].x - p.x, contour[(i + 1) % contour.length].y - p.y), 0);
+
+/**
+ * A filled image with its parts narrower than `minWidth` grown to about it, for sources
+ * without strokes. The thin parts are what opening the image by half the width takes
+ * away, less the slivers it rounds off the corners of wider shapes; their width is taken
+ * as twice their area over their perimeter, which holds for long strokes, and they are
+ * grown by the shortfall.
+ */
+const thickenPolygons = (fill: Polygon[], minWidth: number): Polygon[] => {
+    if (minWidth <= 0 || fill.length === 0) return fill;
+    const opened = offset(offset(fill, -minWidth / 2), minWidth / 2);
+    // The slivers of neighbouring corners come out joined along the edge between them
+    const thin = offset(offset(difference(fill, opened), -SLIVER_JOIN), SLIVER_JOIN)
+        .filter(c => perimeter(c) > SLIVER_PERIMETER * minWidth);
+    const length = thin.reduce((sum, c) => sum + perimeter(c), 0);
+    if (length === 0) return fill;
+    const width = 2 * thin.reduce((sum, c) => sum + signedArea(c), 0) / length;
+    return width < minWidth ? union([...fill, ...offset(thin, (minWidth - width) / 2)]) : fill;
+};
+
+// Closed contours as polylines that end where they start
+const closeContours = (contours: Polygon[]): Point[][] => contours.map(c => [...c, c[0]]);
+
+/**
+ * Centre lines of the dark strokes, with draws that continue one another joined into one
+ * line. Flashes and regions have no centre, so their outlines are traced instead.
+ */
+const strokeLines = (image: GerberImage): Point[][] => {
+    const lines: Point[][] = [];
+    const shapes: GerberObject[] = [];
+    for (const o of image.objects) {
+        if (o.polarity !== 'dark') continue;
+        if (o.kind !== 'draw') {
+            shapes.push(o);
+            continue;
+        }
+        const points = segmentPoints(o.from, o.segment);
+        const line = lines[lines.length - 1];
+        const end = line?.[line.length - 1];
+        if (end && end.x === o.from.x && end.y === o.from.y) line.push(...points);
+        else lines.push([o.from, ...points]);
+    }
+    return shapes.length > 0 ? [...lines, ...closeContours(renderGerberImage(image, shapes))] : lines;
+};
+
+const isSmall = (contour: Polygon, size: number): boolean => {
+    const { width, height } = polygonsBounds([contour]);
+    return width < size && height < size;
+};
+
+/**
+ * Silkscreen of a layer in board space. `source` is the layer's filled image, used when
+ * it has no Gerber; `keepOut` (the mask openings) and `board` trim it when given.
+ */
+export const silkscreenGeometry = (
+    layer: PCBLayer,
+    source: Polygon[],
+    settings: SilkscreenSettings,
+    keepOut: Polygon[] | null,
+    board: Polygon[] | null
+): SilkGeometry => {
+    const image = layer.gerber ? readGerber(layer.gerber.text, layer.gerber.override ?? layer.gerber.detected) : null;
+    let fill = image ? renderGerberImage(image, thickenStrokes(image, settings.minLineWidth)) : thickenPolygons(source, settings.minLineWidth);
+    if (keepOut) fill = difference(fill, keepOut);
+    if (board) fill = intersection(fill, board);
+
+    // Counted after trimming, so slivers left at the edge of a pad count as well
+    const small = fill.filter(c => signedArea(c) > 0 && isSmall(c, settings.minFeatureSize));
+    const dropped = settings.dropSmall && small.length > 0;
+    if (dropped) fill = difference(fill, small);
+
+    if (settings.mode !== 'line') return { fill, lines: null, smallFeatures: small.length };
+    if (!image) return { fill, lines: closeContours(fill), smallFeatures: small.length };
+
+    let lines = strokeLines(image);
+    if (keepOut) lines = clipPolylines(lines, keepOut, 'outside');
+    if (board) lines = clipPolylines(lines, board, 'inside');
+    if (dropped) lines = clipPolylines(lines, offset(small, DROP_MARGIN), 'outside');
+    return { fill, lines, smallFeatures: small.length };
+};
@@ -0,0 +1,671 @@
+import { DOMParser } from '@xmldom/xmldom';
+import {
+    Point,
+    Polygon,
+    Matrix,
+    LineCap,
+    ARC_TOLERANCE,
+    IDENTITY,
+    multiply,
+    translate,
+    scale,
+    rotate,
+    applyMatrix,
+    signedArea,
+    strokePolyline,
+    union
+} from './geometry';
+
+/**
+ * SVG layer importer (KiCad "Plot > SVG", Inkscape and other vector exports)
+ *
+ * Walks the document through its transforms and `<use>` references and turns filled and
+ * stroked shapes (path, rect, circle, ellipse, line, polyline, polygon) into one unioned
+ * polygon set in mm. SVG is already Y down, so user space maps straight onto board space
+ * once the document units are known from `width` / `height` / `viewBox`.
+ *
+ * Uses xmldom rather than the browser DOMParser so it also runs inside workers.
+ */
+
+interface SubPath {
+    points: Point[];
+    closed: boolean;
+}
+
+interface PaintStyle {
+    fill: boolean;
+    fillRule: 'nonzero' | 'evenodd';
+    stroke: boolean;
+    strokeWidth: number; // user units
+    lineCap: LineCap;
+    visible: boolean;
+}
+
+const DEFAULT_STYLE: PaintStyle = {
+    fill: true,
+    fillRule: 'nonzero',
+    stroke: false,
+    strokeWidth: 1,
+    lineCap: 'butt',
+    visible: true
+};
+
+// Size of one unit in mm; unitless lengths are CSS pixels (96 dpi)
+const UNIT_TO_MM: Record<string, number> = {
+    mm: 1,
+    cm: 10,
+    in: 25.4,
+    pt: 25.4 / 72,
+    pc: 25.4 / 6,
+    px: 25.4 / 96,
+    '': 25.4 / 96
+};
+
+// Never painted directly; `symbol` is still reachable through `<use>`
+const NON_RENDERED = new Set([
+    'defs', 'symbol', 'title', 'desc', 'metadata', 'style', 'script', 'clipPath', 'mask',
+    'pattern', 'marker', 'linearGradient', 'radialGradient', 'filter', 'foreignObject'
+]);
+
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+const elementChildren = (el: Element): Element[] => {
+    const out: Element[] = [];
+    for (let i = 0; i < el.childNodes.length; i++) {
+        const node = el.childNodes[i];
+        if (node.nodeType === 1) out.push(node as Element);
+    }
+    return out;
+};
+
+const nameOf = (el: Element): string => el.localName || el.nodeName;
+
+const numberAttr = (el: Element, name: string, fallback: number = 0): number => {
+    const v = parseFloat(el.getAttribute(name) || '');
+    return isNaN(v) ? fallback : v;
+};
+
+/**
+ * Absolute length in mm, or null for missing / relative values (%, em).
+ */
+export const parseLength = (value: string | null): number | null => {
+    if (!value) return null;
+    const m = value.trim().match(/^([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)\s*(mm|cm|in|pt|pc|px)?$/i);
+    if (!m) return null;
+    return parseFloat(m[1]) * UNIT_TO_MM[(m[2] || '').toLowerCase()];
+};
+
+/**
+ * Matrix from root user units to mm.
+ * KiCad writes `width="297mm"` with a matching viewBox (1 unit = 1 mm), Inkscape does the
+ * same for mm documents; without an absolute size the user units are taken as px.
+ */
+export const documentMatrix = (svg: Element): Matrix => {
+    const viewBox = (svg.getAttribute('viewBox') || '').trim().split(/[\s,]+/).map(parseFloat);
+    const width = parseLength(svg.getAttribute('width'));
+    const height = parseLength(svg.getAttribute('height'));
+
+    if (viewBox.length !== 4 || viewBox.some(isNaN) || viewBox[2] <= 0 || viewBox[3] <= 0) {
+        return scale(UNIT_TO_MM.px);
+    }
+
+    const [minX, minY, vbWidth, vbHeight] = viewBox;
+    const sx = width !== null ? width / vbWidth : null;
+    const sy = height !== null ? height / vbHeight : null;
+    // preserveAspectRatio defaults to a uniform scale
+    const s = sx !== null && sy !== null ? Math.min(sx, sy) : sx ?? sy ?? UNIT_TO_MM.px;
+    return multiply(scale(s), translate(-minX, -minY));
+};
+
+export const parseTransform = (value: string | null): Matrix => {
+    let m = IDENTITY;
+    if (!value) return m;
+
+    const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+    let match;
+    while ((match = re.exec(value)) !== null) {
+        const args = match[2].trim().split(/[\s,]+/).filter(Boolean).map(parseFloat);
+        let t: Matrix = IDENTITY;
+        switch (match[1]) {
+            case 'matrix':
+                if (args.length === 6) t = args as Matrix;
+                break;
+            case 'translate':
+                t = translate(args[0] || 0, args[1] || 0);
+                break;
+            case 'scale':
+                t = scale(args[0] ?? 1, args[1] ?? args[0] ?? 1);
+                break;
+            case 'rotate':
+                t = args.length >= 3
+                    ? multiply(translate(args[1], args[2]), multiply(rotate(args[0]), translate(-args[1], -args[2])))
+                    : rotate(args[0] || 0);
+                break;
+            case 'skewX':
+                t = [1, 0, Math.tan((args[0] || 0) * Math.PI / 180), 1, 0, 0];
+                break;
+            case 'skewY':
+                t = [1, Math.tan((args[0] || 0) * Math.PI / 180), 0, 1, 0, 0];
+                break;
+        }
+        m = multiply(m, t);
+    }
+    return m;
+};
+
+// Average scale of a matrix, used for stroke widths and flattening tolerance
+const matrixScale = (m: Matrix): number => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2])) || 1;
+
+// --- Curve flattening (user units) ---
+
+const segmentsForArc = (radius: number, sweep: number, tolerance: number): number => {
+    if (radius <= tolerance) return Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 4)));
+    const step = 2 * Math.acos(1 - tolerance / radius);
+    return Math.min(360, Math.max(1, Math.ceil(Math.abs(sweep) / step)));
+};
+
+const cubicPoints = (p0: Point, p1: Point, p2: Point, p3: Point, tolerance: number): Point[] => {
+    // Flattening error is bounded by max|B''| / (8 n²)
+    const dd = Math.max(
+        Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y),
+        Math.hypot(p1.x - 2 * p2.x + p3.x, p1.y - 2 * p2.y + p3.y)
+    );
+    const n = Math.min(100, Math.max(1, Math.ceil(Math.sqrt((6 * dd) / (8 * tolerance)))));
+    const points: Point[] = [];
+    for (let i = 1; i <= n; i++) {
+        const t = i / n;
+        const mt = 1 - t;
+        points.push({
+            x: mt * mt * mt * p0.x + 3 * mt * mt * t * p1.x + 3 * mt * t * t * p2.x + t * t * t * p3.x,
+            y: mt * mt * mt * p0.y + 3 * mt * mt * t * p1.y + 3 * mt * t * t * p2.y + t * t * t * p3.y
+        });
+    }
+    return points;
+};
+
+const quadraticPoints = (p0: Point, p1: Point, p2: Point, tolerance: number): Point[] => {
+    const dd = Math.hypot(p0.x - 2 * p1.x + p2.x, p0.y - 2 * p1.y + p2.y);
+    const n = Math.min(100, Math.max(1, Math.ceil(Math.sqrt((2 * dd) / (8 * tolerance)))));
+    const points: Point[] = [];
+    for (let i = 1; i <= n; i++) {
+        const t = i / n;
+        const mt = 1 - t;
+        points.push({
+            x: mt * mt * p0.x + 2 * mt * t * p1.x + t * t * p2.x,
+            y: mt * mt * p0.y + 2 * mt * t * p1.y + t * t * p2.y
+        });
+    }
+    return points;
+};
+
+const ellipsePoint = (cx: number, cy: number, rx: number, ry: number, cos: number, sin: number, theta: number): Point => ({
+    x: cx + cos * rx * Math.cos(theta) - sin * ry * Math.sin(theta),
+    y: cy + sin * rx * Math.cos(theta) + cos * ry * Math.sin(theta)
+});
+
+/**
+ * SVG elliptical arc (endpoint parameterisation, SVG spec F.6.5), excluding the start point.
+ */
+const ellipticalArcPoints = (
+    p0: Point, rx: number, ry: number, xAxisRotation: number,
+    largeArc: boolean, sweep: boolean, p1: Point, tolerance: number
+): Point[] => {
+    if (p0.x === p1.x && p0.y === p1.y) return [];
+    rx = Math.abs(rx);
+    ry = Math.abs(ry);
+    if (rx === 0 || ry === 0) return [p1];
+
+    const phi = xAxisRotation * Math.PI / 180;
+    const cos = Math.cos(phi);
+    const sin = Math.sin(phi);
+    const dx = (p0.x - p1.x) / 2;
+    const dy = (p0.y - p1.y) / 2;
+    const x1 = cos * dx + sin * dy;
+    const y1 = -sin * dx + cos * dy;
+
+    // Radii too small to reach the end point are scaled up
+    const lambda = (x1 * x1) / (rx * rx) + (y1 * y1) / (ry * ry);
+    if (lambda > 1) {
+        rx *= Math.sqrt(lambda);
+        ry *= Math.sqrt(lambda);
+    }
+
+    const num = rx * rx * ry * ry - rx * rx * y1 * y1 - ry * ry * x1 * x1;
+    const den = rx * rx * y1 * y1 + ry * ry * x1 * x1;
+    const coef = (largeArc !== sweep ? 1 : -1) * Math.sqrt(Math.max(0, num / den));
+    const cxp = coef * (rx * y1) / ry;
+    const cyp = coef * -(ry * x1) / rx;
+    const cx = cos * cxp - sin * cyp + (p0.x + p1.x) / 2;
+    const cy = sin * cxp + cos * cyp + (p0.y + p1.y) / 2;
+
+    const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+    const theta1 = angle(1, 0, (x1 - cxp) / rx, (y1 - cyp) / ry);
+    let dTheta = angle((x1 - cxp) / rx, (y1 - cyp) / ry, (-x1 - cxp) / rx, (-y1 - cyp) / ry);
+    if (!sweep && dTheta > 0) dTheta -= Math.PI * 2;
+    if (sweep && dTheta < 0) dTheta += Math.PI * 2;
+
+    const n = segmentsForArc(Math.max(rx, ry), dTheta, tolerance);
+    const points: Point[] = [];
+    for (let i = 1; i < n; i++) {
+        points.push(ellipsePoint(cx, cy, rx, ry, cos, sin, theta1 + dTheta * (i / n)));
+    }
+    points.push({ x: p1.x, y: p1.y });
+    return points;
+};
+
+const ellipsePoints = (cx: number, cy: number, rx: number, ry: number, tolerance: number): Point[] => {
+    const n = Math.max(8, segmentsForArc(Math.max(rx, ry), Math.PI * 2, tolerance));
+    const points: Point[] = [];
+    for (let i = 0; i < n; i++) {
+        points.push(ellipsePoint(cx, cy, rx, ry, 1, 0, (i / n) * Math.PI * 2));
+    }
+    return points;
+};
+
+// --- Path data ---
+
+const NUMBER_RE = /[-+]?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/y;
+
+/**
+ * Parse SVG path data into flattened subpaths (user units).
+ * Malformed data stops parsing at the error, like browsers do.
+ */
+export const parsePathData = (d: string, tolerance: number): SubPath[] => {
+    const subpaths: SubPath[] = [];
+    let i = 0;
+
+    const skipSeparators = () => {
+        while (i < d.length && (d[i] === ',' || d[i] === ' ' || d[i] === '\n' || d[i] === '\r' || d[i] === '\t')) i++;
+    };
+    const readNumber = (): number => {
+        skipSeparators();
+        NUMBER_RE.lastIndex = i;
+        const m = NUMBER_RE.exec(d);
+        if (!m) return NaN;
+        i = NUMBER_RE.lastIndex;
+        return parseFloat(m[0]);
+    };
+    // Arc flags may be written without separators ("a5 5 0 011 1")
+    const readFlag = (): number => {
+        skipSeparators();
+        const c = d[i];
+        if (c !== '0' && c !== '1') return NaN;
+        i++;
+        return c === '1' ? 1 : 0;
+    };
+
+    let current: Point = { x: 0, y: 0 };
+    let start: Point = current;
+    let sub: SubPath | null = null;
+    let command = '';
+    let previous = '';
+    let lastControl: Point | null = null;
+
+    const moveTo = (p: Point) => {
+        sub = { points: [p], closed: false };
+        subpaths.push(sub);
+        current = start = p;
+    };
+    const addPoints = (points: Point[]) => {
+        if (!sub) moveTo(current);
+        sub!.points.push(...points);
+        if (points.length > 0) current = points[points.length - 1];
+    };
+
+    parse: while (true) {
+        skipSeparators();
+        if (i >= d.length) break;
+
+        if (/[a-zA-Z]/.test(d[i])) {
+            command = d[i++];
+            if (command === 'Z' || command === 'z') {
+                if (sub) (sub as SubPath).closed = true;
+                sub = null;
+                current = start;
+                previous = 'Z';
+                continue;
+            }
+        } else if (!command || command === 'Z' || command === 'z') {
+            break;
+        }
+
+        const relative = command === command.toLowerCase();
+        const ox = relative ? current.x : 0;
+        const oy = relative ? current.y : 0;
+        const upper = command.toUpperCase();
+
+        switch (upper) {
+            case 'M': {
+                const x = readNumber(), y = readNumber();
+                if (isNaN(x) || isNaN(y)) break parse;
+                moveTo({ x: ox + x, y: oy + y });
+                // Further coordinate pairs are implicit line-tos
+                command = relative ? 'l' : 'L';
+                break;
+            }
+            case 'L': {
+                const x = readNumber(), y = readNumber();
+                if (isNaN(x) || isNaN(y)) break parse;
+                addPoints([{ x: ox + x, y: oy + y }]);
+                break;
+            }
+            case 'H': {
+                const x = readNumber();
+                if (isNaN(x)) break parse;
+                addPoints([{ x: ox + x, y: current.y }]);
+                break;
+            }
+            case 'V': {
+                const y = readNumber();
+                if (isNaN(y)) break parse;
+                addPoints([{ x: current.x, y: oy + y }]);
+                break;
+            }
+            case 'C':
+            case 'S': {
+                let c1: Point;
+                if (upper === 'C') {
+                    const x1 = readNumber(), y1 = readNumber();
+                    if (isNaN(x1) || isNaN(y1)) break parse;
+                    c1 = { x: ox + x1, y: oy + y1 };
+                } else {
+                    c1 = lastControl && (previous === 'C' || previous === 'S')
+                        ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+                        : current;
+                }
+                const x2 = readNumber(), y2 = readNumber(), x = readNumber(), y = readNumber();
+                if ([x2, y2, x, y].some(isNaN)) break parse;
+                const c2 = { x: ox + x2, y: oy + y2 };
+                addPoints(cubicPoints(current, c1, c2, { x: ox + x, y: oy + y }, tolerance));
+                lastControl = c2;
+                break;
+            }
+            case 'Q':
+            case 'T': {
+                let c: Point;
+                if (upper === 'Q') {
+                    const x1 = readNumber(), y1 = readNumber();
+                    if (isNaN(x1) || isNaN(y1)) break parse;
+                    c = { x: ox + x1, y: oy + y1 };
+                } else {
+                    c = lastControl && (previous === 'Q' || previous === 'T')
+                        ? { x: 2 * current.x - lastControl.x, y: 2 * current.y - lastControl.y }
+                        : current;
+                }
+                const x = readNumber(), y = readNumber();
+                if (isNaN(x) || isNaN(y)) break parse;
+                addPoints(quadraticPoints(current, c, { x: ox + x, y: oy + y }, tolerance));
+                lastControl = c;
+                break;
+            }
+            case 'A': {
+                const rx = readNumber(), ry = readNumber(), rotation = readNumber();
+                const largeArc = readFlag(), sweep = readFlag();
+                const x = readNumber(), y = readNumber();
+                if ([rx, ry, rotation, largeArc, sweep, x, y].some(isNaN)) break parse;
+                addPoints(ellipticalArcPoints(current, rx, ry, rotation, largeArc === 1, sweep === 1, { x: ox + x, y: oy + y }, tolerance));
+                break;
+            }
+            default:
+                console.warn(`SVG: unsupported path command '${command}'`);
+                break parse;
+        }
+        previous = upper;
+    }
+
+    return subpaths;
+};
+
+// --- Elements ---
+
+const pointsAttr = (el: Element): Point[] => {
+    const nums = (el.getAttribute('points') || '').trim().split(/[\s,]+/).map(parseFloat).filter(n => !isNaN(n));
+    const points: Point[] = [];
+    for (let i = 0; i + 1 < nums.length; i += 2) {
+        points.push({ x: nums[i], y: nums[i + 1] });
+    }
+    return points;
+};
+
+const rectSubpaths = (el: Element, tolerance: number): SubPath[] => {
+    const x = numberAttr(el, 'x');
+    const y = numberAttr(el, 'y');
+    const w = numberAttr(el, 'width');
+    const h = numberAttr(el, 'height');
+    if (w <= 0 || h <= 0) return [];
+
+    // A single corner radius applies to both axes
+    let rx = el.hasAttribute('rx') ? numberAttr(el, 'rx') : numberAttr(el, 'ry');
+    let ry = el.hasAttribute('ry') ? numberAttr(el, 'ry') : rx;
+    rx = Math.min(Math.max(rx, 0), w / 2);
+    ry = Math.min(Math.max(ry, 0), h / 2);
+
+    if (rx === 0 || ry === 0) {
+        return [{ points: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], closed: true }];
+    }
+
+    const corner = (from: Point, to: Point) => ellipticalArcPoints(from, rx, ry, 0, false, true, to, tolerance);
+    const points: Point[] = [{ x: x + rx, y }];
+    points.push({ x: x + w - rx, y });
+    points.push(...corner({ x: x + w - rx, y }, { x: x + w, y: y + ry }));
+    points.push({ x: x + w, y: y + h - ry });
+    points.push(...corner({ x: x + w, y: y + h - ry }, { x: x + w - rx, y: y + h }));
+    points.push({ x: x + rx, y: y + h });
+    points.push(...corner({ x: x + rx, y: y + h }, { x, y: y + h - ry }));
+    points.push({ x, y: y + ry });
+    points.push(...corner({ x, y: y + ry }, { x: x + rx, y }));
+    return [{ points, closed: true }];
+};
+
+const shapeSubpaths = (el: Element, tolerance: number): SubPath[] => {
+    switch (nameOf(el)) {
+        case 'path':
+            return parsePathData(el.getAttribute('d') || '', tolerance);
+        case 'rect':
+            return rectSubpaths(el, tolerance);
+        case 'circle': {
+            const r = numberAttr(el, 'r');
+            return r > 0 ? [{ points: ellipsePoints(numberAttr(el, 'cx'), numberAttr(el, 'cy'), r, r, tolerance), closed: true }] : [];
+        }
+        case 'ellipse': {
+            const rx = numberAttr(el, 'rx');
+            const ry = numberAttr(el, 'ry');
+            return rx > 0 && ry > 0 ? [{ points: ellipsePoints(numberAttr(el, 'cx'), numberAttr(el, 'cy'), rx, ry, tolerance), closed: true }] : [];
+        }
+        case 'line':
+            return [{
+                points: [
+                    { x: numberAttr(el, 'x1'), y: numberAttr(el, 'y1') },
+                    { x: numberAttr(el, 'x2'), y: numberAttr(el, 'y2') }
+                ],
+                closed: false
+            }];
+        case 'polyline':
+            return [{ points: pointsAttr(el), closed: false }];
+        case 'polygon':
+            return [{ points: pointsAttr(el), closed: true }];
+        default:
+            return [];
+    }
+};
+
+// --- Styles ---
+
+const styleProperties = (el: Element): Record<string, string> => {
+    const props: Record<string, string> = {};
+    (el.getAttribute('style') || '').split(';').forEach(decl => {
+        const idx = decl.indexOf(':');
+        if (idx < 0) return;
+        props[decl.slice(0, idx).trim().toLowerCase()] = decl.slice(idx + 1).trim();
+    });
+    return props;
+};
+
+// Inline style wins over presentation attributes
+const property = (el: Element, props: Record<string, string>, name: string): string | undefined =>
+    props[name] || el.getAttribute(name) || undefined;
+
+const isPainted = (value: string): boolean => {
+    const v = value.toLowerCase();
+    return v !== 'none' && v !== 'transparent';
+};
+
+const resolveStyle = (el: Element, inherited: PaintStyle): PaintStyle => {
+    const props = styleProperties(el);
+    const style = { ...inherited };
+
+    const fill = property(el, props, 'fill');
+    if (fill !== undefined && fill !== 'inherit') style.fill = isPainted(fill);
+    const fillOpacity = property(el, props, 'fill-opacity');
+    if (fillOpacity !== undefined && parseFloat(fillOpacity) === 0) style.fill = false;
+
+    const fillRule = property(el, props, 'fill-rule');
+    if (fillRule === 'evenodd' || fillRule === 'nonzero') style.fillRule = fillRule;
+
+    const stroke = property(el, props, 'stroke');
+    if (stroke !== undefined && stroke !== 'inherit') style.stroke = isPainted(stroke);
+    const strokeOpacity = property(el, props, 'stroke-opacity');
+    if (strokeOpacity !== undefined && parseFloat(strokeOpacity) === 0) style.stroke = false;
+
+    const strokeWidth = parseFloat(property(el, props, 'stroke-width') || '');
+    if (!isNaN(strokeWidth)) style.strokeWidth = strokeWidth;
+
+    const lineCap = property(el, props, 'stroke-linecap');
+    if (lineCap === 'round' || lineCap === 'square' || lineCap === 'butt') style.lineCap = lineCap;
+
+    const visibility = property(el, props, 'visibility');
+    if (visibility === 'hidden' || visibility === 'collapse') style.visible = false;
+    if (visibility === 'visible') style.visible = true;
+
+    return style;
+};
+
+const isDisplayed = (el: Element): boolean => {
+    const display = property(el, styleProperties(el), 'display');
+    return display !== 'none';
+};
+
+// --- Document walk ---
+
+const MAX_USE_DEPTH = 16;
+
+class SvgGeometryReader {
+    private ids = new Map<string, Element>();
+    private polygons: Polygon[] = [];
+    private warnedText = false;
+
+    constructor(private root: Element, private documentTransform: Matrix) {
+        const all = root.getElementsByTagName('*');
+        for (let i = 0; i < all.length; i++) {
+            const id = all[i].getAttribute('id');
+            if (id) this.ids.set(id, all[i]);
+        }
+    }
+
+    read(): Polygon[] {
+        const style = resolveStyle(this.root, DEFAULT_STYLE);
+        const m = multiply(this.documentTransform, parseTransform(this.root.getAttribute('transform')));
+        elementChildren(this.root).forEach(child => this.visit(child, m, style, 0));
+        return union(this.polygons, 'nonzero');
+    }
+
+    private visit(el: Element, parent: Matrix, inherited: PaintStyle, useDepth: number, referenced: boolean = false) {
+        const name = nameOf(el);
+        if (NON_RENDERED.has(name) && !(referenced && name === 'symbol')) return;
+        if (!isDisplayed(el)) return;
+
+        const style = resolveStyle(el, inherited);
+        const m = multiply(parent, parseTransform(el.getAttribute('transform')));
+
+        switch (name) {
+            case 'g':
+            case 'a':
+            case 'switch':
+            case 'symbol':
+                elementChildren(el).forEach(child => this.visit(child, m, style, useDepth));
+                return;
+            case 'svg': {
+                // Nested viewport: only its position is honoured
+                const inner = multiply(m, translate(numberAttr(el, 'x'), numberAttr(el, 'y')));
+                elementChildren(el).forEach(child => this.visit(child, inner, style, useDepth));
+                return;
+            }
+            case 'use': {
+                if (useDepth >= MAX_USE_DEPTH) return;
+                const href = el.getAttribute('href') || el.getAttributeNS(XLINK_NS, 'href') || el.getAttribute('xlink:href');
+                const target = href?.startsWith('#') ? this.ids.get(href.slice(1)) : undefined;
+                if (!target) return;
+                const placed = multiply(m, translate(numberAttr(el, 'x'), numberAttr(el, 'y')));
+                this.visit(target, placed, style, useDepth + 1, true);
+                return;
+            }
+            case 'text':
+                if (!this.warnedText) {
+                    console.warn('SVG: text elements are not converted; export text as outlines');
+                    this.warnedText = true;
+                }
+                return;
+            default:
+                this.paint(el, m, style);
+        }
+    }
+
+    private paint(el: Element, m: Matrix, style: PaintStyle) {
+        if (!style.visible || (!style.fill && !style.stroke)) return;
+
+        const unitScale = matrixScale(m);
+        const subpaths = shapeSubpaths(el, ARC_TOLERANCE / unitScale)
+            .map(sp => ({ points: sp.points.map(p => applyMatrix(p, m)), closed: sp.closed }))
+            .filter(sp => sp.points.length > 0);
+        if (subpaths.length === 0) return;
+
+        if (style.fill) {
+            // Fill treats every subpath as closed; union normalises the orientation
+            const rings = subpaths.filter(sp => sp.points.length >= 3).map(sp => sp.points);
+            if (rings.length === 1) {
+                // Either fill rule paints a lone ring the same way
+                this.polygons.push(signedArea(rings[0]) < 0 ? rings[0].reverse() : rings[0]);
+            } else if (rings.length > 1) {
+                this.polygons.push(...union(rings, style.fillRule));
+            }
+        }
+
+        if (style.stroke && style.strokeWidth > 0) {
+            const width = style.strokeWidth * unitScale;
+            subpaths.forEach(sp => this.polygons.push(...strokePolyline(sp.points, width, style.lineCap, sp.closed)));
+        }
+    }
+}
+
+const parseDocument = (markup: string): Element => {
+    let failed = false;
+    const doc = new DOMParser({
+        errorHandler: { warning: () => {}, error: () => { failed = true; }, fatalError: () => { failed = true; } }
+    }).parseFromString(markup, 'image/svg+xml');
+    const root = doc.documentElement;
+    if (failed || !root || nameOf(root) !== 'svg') {
+        throw new Error('Not a valid SVG document');
+    }
+    return root;
+};
+
+/**
+ * Flatten an SVG document into filled polygons in mm (page coordinates, Y down).
+ */
+export const parseSvgLayer = (content: string): Polygon[] => {
+    const root = parseDocument(content);
+    return new SvgGeometryReader(root, documentMatrix(root)).read();
+};
+
+/**
+ * Filled polygons of a layer's `content`, bare path data in mm board space (filled even-odd).
+ */
+export const contentToPolygons = (content: string): Polygon[] => {
+    const trimmed = content.trim();
+    if (!trimmed) return [];
+
+    const rings = parsePathData(trimmed, ARC_TOLERANCE)
+        .filter(sp => sp.points.length >= 3)
+        .map(sp => sp.points);
+    return union(rings, 'evenodd');
+};
@@ -2,6 +2,25 @@
  * XCS File Generator for xTool Creative Space
  */
 
+/**
+ * - 'FILL_VECTOR_ENGRAVING': closed shapes are filled with scan lines
+ * - 'VECTOR_ENGRAVING': the laser follows the path outlines only
+ * - 'VECTOR_CUTTING': outlines are cut through, repeated `passes` times
+ */
+export type XCSProcessingType = 'FILL_VECTOR_ENGRAVING' | 'VECTOR_ENGRAVING' | 'VECTOR_CUTTING';
+
+/**
+ * Part of a layer exported as its own display, with laser settings that override the layer's
+ */
+export interface XCSFeatureGroup {
+    name: string;
+    paths: string[];
+    color?: string; // XCS groups displays by colour, so a group with settings of its own needs its own
+    speed?: number;
+    power?: number;
+    passes?: number;
+}
+
 export interface XCSLayer {
     name: string;
     paths: string[];
@@ -12,6 +31,13 @@ export interface XCSLayer {
     frequency?: number;
     lpi?: number;
     passes?: number;
+    processingType?: XCSProcessingType; // Defaults to FILL_VECTOR_ENGRAVING
+    kerf?: number; // mm, VECTOR_ENGRAVING and VECTOR_CUTTING
+    // FILL_VECTOR_ENGRAVING scan pattern
+    scanAngle?: number; // degrees
+    bidirectional?: boolean;
+    crossHatch?: boolean;
+    groups?: XCSFeatureGroup[]; // When set, exported instead of `paths`, one display each
 }
 
 export class XCSGenerator {
@@ -36,24 +62,34 @@ export class XCSGenerator {
         const displaySettingsMap = new Map();
 
         layers.forEach((layer, index) => {
-            if (!layer.visible || !layer.paths || layer.paths.length === 0) return;
-
-            const combinedPath = layer.paths.join(' ');
-            if (combinedPath.length === 0) return;
-
-            const displayId = this.generateUUID();
-            const display = this.createPathDisplay(displayId, index, layer.name, combinedPath, layer.color);
-
-            if (display) {
-                displays.push(display);
-                displaySettingsMap.set(displayId, {
-                    speed: layer.speed || 100,
-                    power: layer.power || 10,
-                    repeat: layer.passes || 1,
-                    frequency: layer.frequency || 60,
-                    lpi: layer.lpi || 300
-                });
-            }
+            if (!layer.visible) return;
+            const groups: XCSFeatureGroup[] = layer.groups ?? [{ name: '', paths: layer.paths ?? [] }];
+
+            groups.forEach(group => {
+                const combinedPath = group.paths.join(' ');
+                if (combinedPath.trim().length === 0) return;
+                const name = group.name ? `${layer.name} ${group.name}` : layer.name;
+
+                const displayId = this.generateUUID();
+                const processingType = layer.processingType || 'FILL_VECTOR_ENGRAVING';
+                const display = this.createPathDisplay(displayId, index, name, combinedPath, group.color ?? layer.color, processingType === 'FILL_VECTOR_ENGRAVING');
+
+                if (display) {
+                    displays.push(display);
+                    displaySettingsMap.set(displayId, {
+                        speed: group.speed || layer.speed || 100,
+                        power: group.power || layer.power || 10,
+                        repeat: group.passes || layer.passes || 1,
+                        frequency: layer.frequency || 60,
+                        lpi: layer.lpi || 300,
+                        processingType,
+                        kerf: layer.kerf ?? 0,
+                        scanAngle: layer.scanAngle ?? 0,
+                        bidirectional: layer.bidirectional ?? false,
+                        crossHatch: layer.crossHatch ?? false
+                    });
+                }
+            });
         });
 
         const deviceId = this.settings.activeDevice || 'f2_ultra_uv';
@@ -82,11 +118,22 @@ export class XCSGenerator {
     private generateLayerData(layers: XCSLayer[]) {
         const data: any = {};
         layers.forEach((layer, index) => {
-            data[layer.color] = {
-                name: layer.name,
-                order: index + 1,
-                visible: true
-            };
+            // A layer whose groups all have colours of their own has no displays in its own
+            if (!layer.groups || layer.groups.some(g => !g.color)) {
+                data[layer.color] = {
+                    name: layer.name,
+                    order: index + 1,
+                    visible: true
+                };
+            }
+            layer.groups?.forEach(group => {
+                if (!group.color) return;
+                data[group.color] = {
+                    name: `${layer.name} ${group.name}`,
+                    order: index + 1,
+                    visible: true
+                };
+            });
         });
         return data;
     }
@@ -98,16 +145,22 @@ export class XCSGenerator {
                 speed: s.speed,
                 power: s.power,
                 repeat: s.repeat,
-                frequency: s.frequency,
-                density: s.lpi,
-                dpi: s.lpi,
-                enableKerf: false,
-                kerfDistance: 0,
-                bitmapScanMode: 'lineMode',
-                bitmapEngraveMode: "normal",
-                scanAngle: 0
+                frequency: s.frequency
             };
 
+            if (s.processingType === 'FILL_VECTOR_ENGRAVING') {
+                customize.density = s.lpi;
+                customize.dpi = s.lpi;
+                // zMode scans back and forth, lineMode returns to the same side for every line
+                customize.bitmapScanMode = s.bidirectional ? 'zMode' : 'lineMode';
+                customize.bitmapEngraveMode = "normal";
+                customize.scanAngle = s.scanAngle;
+                customize.crossAngle = s.crossHatch;
+            } else {
+                customize.enableKerf = s.kerf !== 0;
+                customize.kerfDistance = s.kerf;
+            }
+
             if (isBase) {
                 customize.processingLightSource = "red";
             }
@@ -115,11 +168,11 @@ export class XCSGenerator {
             return [
                 display.id,
                 {
-                    isFill: true,
+                    isFill: display.isFill,
                     type: "PATH",
-                    processingType: "FILL_VECTOR_ENGRAVING",
+                    processingType: s.processingType,
                     data: {
-                        FILL_VECTOR_ENGRAVING: {
+                        [s.processingType]: {
                             materialType: "customize",
                             planType: "dot_cloud",
                             parameter: { customize: customize }
@@ -160,7 +213,7 @@ export class XCSGenerator {
         };
     }
 
-    private createPathDisplay(id: string, index: number, name: string, dPath: string, color: string) {
+    private createPathDisplay(id: string, index: number, name: string, dPath: string, color: string, isFill: boolean) {
         const tightened = this.calculateBoundsAndTighten(dPath);
         if (!tightened.bounds) return null;
 
@@ -177,7 +230,7 @@ export class XCSGenerator {
             zOrder: index + 1,
             layerColor: color,
             visible: true,
-            isFill: true,
+            isFill: isFill,
             fillColor: color,
             dPath: tightened.dPath
         };
@@ -0,0 +1,36 @@
+import { plotGerber } from '../utils/gerberPlot';
+import { processLayer } from '../utils/layerProcessing';
+import type { GeometryWorkerRequest, GeometryWorkerResponse } from '../utils/geometryWorkerPool';
+
+/**
+ * Geometry worker: processes one layer, or plots one Gerber file, per message and
+ * reports each stage of a layer.
+ */
+
+// The project compiles against the DOM lib, so type the worker scope by hand
+const scope = self as unknown as {
+    onmessage: ((e: MessageEvent<GeometryWorkerRequest>) => void) | null;
+    postMessage: (message: GeometryWorkerResponse) => void;
+};
+
+scope.onmessage = (e) => {
+    const request = e.data;
+    const { runId } = request;
+    try {
+        if (request.type === 'plot') {
+            scope.postMessage({ type: 'plotted', runId, plotted: plotGerber(request.content, request.format, request.isOutline) });
+            return;
+        }
+        const { layer, bounds, mirror, board, keepOut } = request;
+        const result = processLayer(layer, bounds, mirror, board, keepOut, stage => {
+            scope.postMessage({ type: 'progress', runId, layerId: layer.id, stage });
+        });
+        scope.postMessage({ type: 'result', runId, layer: result });
+    } catch (err) {
+        scope.postMessage({
+            type: 'error',
+            runId,
+            message: err instanceof Error ? err.message : String(err)
+        });
+    }
+};
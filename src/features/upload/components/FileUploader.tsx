@@ -1,11 +1,47 @@
 import React, { useState, useCallback } from 'react';
 import { Upload, FileType, CheckCircle, AlertCircle } from 'lucide-react';
+import { LAYER_FILE_PATTERN } from '@/features/parser/utils/gerberParser';
 
 interface FileUploaderProps {
-    onFilesAccepted: (file: File) => void;
+    onFilesAccepted: (files: File[]) => void;
     isProcessing?: boolean;
 }
 
+const isArchive = (file: File) =>
+    file.type === 'application/zip' || file.name.endsWith('.zip') ||
+    file.type === 'text/xml' || file.name.endsWith('.xml');
+
+const readEntry = (entry: FileSystemEntry): Promise<File[]> => {
+    if (entry.isFile) {
+        return new Promise(resolve => (entry as FileSystemFileEntry).file(f => resolve([f]), () => resolve([])));
+    }
+    if (!entry.isDirectory) return Promise.resolve([]);
+
+    // readEntries returns the listing in batches until it comes back empty
+    const reader = (entry as FileSystemDirectoryEntry).createReader();
+    return new Promise(resolve => {
+        const children: FileSystemEntry[] = [];
+        const next = () => reader.readEntries(batch => {
+            if (batch.length === 0) {
+                Promise.all(children.map(readEntry)).then(lists => resolve(lists.flat()));
+                return;
+            }
+            children.push(...batch);
+            next();
+        }, () => resolve([]));
+        next();
+    });
+};
+
+// Dropped folders are expanded into the files they contain
+const collectDroppedFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+    const entries = Array.from(dataTransfer.items || [])
+        .map(item => item.webkitGetAsEntry?.())
+        .filter((e): e is FileSystemEntry => !!e);
+    if (entries.length === 0) return Array.from(dataTransfer.files);
+    return (await Promise.all(entries.map(readEntry))).flat();
+};
+
 export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesAccepted, isProcessing }) => {
     const [isDragging, setIsDragging] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -19,37 +55,49 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesAccepted, isP
         setIsDragging(false);
     };
 
-    const validateFile = (file: File) => {
-        const isZip = file.type === 'application/zip' || file.name.endsWith('.zip');
-        const isXml = file.type === 'text/xml' || file.name.endsWith('.xml');
-        const isSvg = file.type === 'image/svg+xml' || file.name.endsWith('.svg');
+    /**
+     * Either a single ZIP / IPC-2581 XML, or any number of loose layer files
+     * (Gerber, drill, job, SVG). Unrelated files in a dropped folder are ignored.
+     */
+    const selectFiles = (files: File[]): File[] | null => {
+        const archives = files.filter(isArchive);
+        if (archives.length === 1 && files.length === 1) {
+            setError(null);
+            return archives;
+        }
+        if (archives.length > 0) {
+            setError('Drop a single ZIP or IPC-2581 XML, or loose layer files without an archive.');
+            return null;
+        }
 
-        if (isZip || isXml || isSvg) {
+        const layerFiles = files.filter(f => f.type === 'image/svg+xml' || LAYER_FILE_PATTERN.test(f.name));
+        if (layerFiles.length > 0) {
             setError(null);
-            return true;
+            return layerFiles;
         }
 
-        setError('Invalid file format. Please use Gerber ZIP, SVG, or IPC-2581 XML.');
-        return false;
+        setError('Invalid file format. Please use Gerber ZIP, Gerber / SVG layer files, or IPC-2581 XML.');
+        return null;
     };
 
-    const handleDrop = useCallback((e: React.DragEvent) => {
+    const handleDrop = useCallback(async (e: React.DragEvent) => {
         e.preventDefault();
         setIsDragging(false);
 
-        if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-            const file = e.dataTransfer.files[0];
-            if (validateFile(file)) {
-                onFilesAccepted(file);
+        const files = await collectDroppedFiles(e.dataTransfer);
+        if (files.length > 0) {
+            const selected = selectFiles(files);
+            if (selected) {
+                onFilesAccepted(selected);
             }
         }
     }, [onFilesAccepted]);
 
     const handleFileInput = (e: React.ChangeEvent<HTMLInputElement>) => {
         if (e.target.files && e.target.files.length > 0) {
-            const file = e.target.files[0];
-            if (validateFile(file)) {
-                onFilesAccepted(file);
+            const selected = selectFiles(Array.from(e.target.files));
+            if (selected) {
+                onFilesAccepted(selected);
             }
         }
     };
@@ -78,7 +126,7 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesAccepted, isP
                             {isProcessing ? 'SYNTHESIZING DESIGN...' : 'INGEST PCB DATA'}
                         </p>
                         <p className="text-sm font-medium text-brand-text-muted">
-                            {isProcessing ? 'Decompressing and mapping layers to fabrication primitives' : 'Drag Gerber ZIP, SVG Export, or IPC-2581 XML to initiate stack parsing'}
+                            {isProcessing ? 'Decompressing and mapping layers to fabrication primitives' : 'Drag a Gerber ZIP, IPC-2581 XML, or loose Gerber / SVG layer files (or their folder) to initiate stack parsing'}
                         </p>
                     </div>
 
@@ -95,7 +143,8 @@ export const FileUploader: React.FC<FileUploaderProps> = ({ onFilesAccepted, isP
                 <input
                     type="file"
                     className="hidden"
-                    accept=".zip,.xml,.svg"
+                    accept=".zip,.xml,.svg,.gbr,.gtl,.gbl,.gts,.gbs,.gto,.gbo,.gtp,.gbp,.gko,.gm1,.drl,.xln,.gbrjob"
+                    multiple
                     onChange={handleFileInput}
                     disabled={isProcessing}
                 />
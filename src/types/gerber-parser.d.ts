@@ -0,0 +1,49 @@
+import 'gerber-parser';
+
+// The package's own typings stop at the stream interface; this adds the synchronous parse
+// and the commands it returns for Gerber files
+declare module 'gerber-parser' {
+    interface Parser {
+        parseSync(file: string): Command[];
+    }
+
+    interface Coordinate {
+        x?: number;
+        y?: number;
+        i?: number; // Arc centre offsets
+        j?: number;
+    }
+
+    interface ToolShape {
+        shape: string; // 'circle' | 'rect' | 'obround' | 'poly', otherwise a macro name
+        params: number[];
+        hole: number[]; // Empty without a hole
+    }
+
+    interface MacroPrimitive {
+        type: string;
+        [key: string]: any;
+    }
+
+    type SetCommand =
+        | { prop: 'region'; value: boolean }
+        | { prop: 'tool'; value: string }
+        | { prop: 'mode'; value: 'i' | 'cw' | 'ccw' }
+        | { prop: 'arc'; value: 's' | 'm' }
+        | { prop: 'units' | 'backupUnits'; value: 'mm' | 'in' }
+        | { prop: 'nota' | 'backupNota'; value: 'A' | 'I' }
+        | { prop: 'epsilon'; value: number };
+
+    type LevelCommand =
+        | { level: 'polarity'; value: 'C' | 'D' }
+        | { level: 'stepRep'; value: { x: number; y: number; i: number; j: number } };
+
+    type Command = { line: number } & (
+        | { type: 'done' }
+        | ({ type: 'set' } & SetCommand)
+        | ({ type: 'level' } & LevelCommand)
+        | { type: 'tool'; code: string; tool: ToolShape }
+        | { type: 'op'; op: 'move' | 'int' | 'flash' | 'last'; coord: Coordinate }
+        | { type: 'macro'; name: string; blocks: MacroPrimitive[] }
+    );
+}
@@ -1,11 +1,227 @@
-export type PCBFileSource = 'ZIP' | 'IPC2581' | 'SVG';
+export type PCBFileSource = 'ZIP' | 'IPC2581' | 'SVG' | 'GERBER'; // GERBER = loose layer files
+
+export type LayerSide = 'front' | 'back' | 'internal' | 'board';
+
+export type LayerPolarity = 'positive' | 'negative';
+
+export type DrillPlating = 'PTH' | 'NPTH';
+
+/**
+ * How drill hits are turned into laser geometry:
+ * - 'pilot': small engraved marks at hole centres to guide a manual drill
+ * - 'through': full-diameter outlines to cut the hole with the laser
+ */
+export type DrillMode = 'pilot' | 'through';
+
+/**
+ * How copper layers are turned into laser geometry:
+ * - 'clearance': everything that isn't copper is ablated (Invert Paths)
+ * - 'isolation': only a moat of concentric outlines around the copper is engraved
+ * - 'hybrid': isolation moats, plus a coarse fill of the open areas far from any copper
+ */
+export type CopperMode = 'clearance' | 'isolation' | 'hybrid';
+
+export interface IsolationSettings {
+    toolWidth: number; // mm, width of one engraved line
+    passes: number; // concentric outlines per copper shape
+    overlap: number; // 0..1, share of the tool width covered by the neighbouring pass
+}
+
+export interface HybridClearSettings {
+    distance: number; // mm from copper beyond which open areas count as far
+    clearFar: boolean; // false leaves far areas as floating copper
+    // Laser parameters of the coarse fill
+    speed: number;
+    power: number;
+    lpi: number;
+}
+
+/**
+ * How the laser works a layer's exported paths:
+ * - 'fill': closed shapes are filled with scan lines
+ * - 'outline': the path outlines are engraved
+ * - 'cut': the outlines are cut through
+ */
+export type LaserProcess = 'fill' | 'outline' | 'cut';
+
+export interface ProcessSettings {
+    process: LaserProcess;
+    passes: number;
+    kerf: number; // mm the path is offset by to make up for the beam width ('outline' and 'cut')
+    // 'fill' only
+    lineSpacing: number; // mm between scan lines
+    scanAngle: number; // degrees
+    bidirectional: boolean; // scan both ways rather than returning to the same side for every line
+    crossHatch: boolean; // fill a second time at right angles to the first
+}
+
+/**
+ * Pad openings ablated from a UV-cured solder mask film, taken from the mask layer's
+ * image (where it is dark, the board has no mask)
+ */
+export interface MaskOpeningSettings {
+    expansion: number; // mm each opening grows by, negative to shrink
+    // Laser parameters of the ablation
+    speed: number;
+    power: number;
+    lpi: number;
+    passes: number;
+}
+
+/**
+ * How a silkscreen layer is marked:
+ * - 'fill': the artwork is filled with scan lines
+ * - 'line': each stroke is engraved once along its centre line
+ */
+export type SilkMode = 'fill' | 'line';
+
+export interface SilkscreenSettings {
+    mode: SilkMode;
+    minLineWidth: number; // mm; thinner strokes are drawn at this width
+    minFeatureSize: number; // mm; features smaller than this in both directions are too fine to mark
+    dropSmall: boolean; // leave those features out, rather than only warning about them
+    clipToMask: boolean; // keep silk off the openings in the same side's solder mask
+}
+
+/**
+ * Axis that mirrored (back-side) layers are flipped about before export, so they come out
+ * right when the board is turned over in the laser:
+ * - 'vertical': left-right flip about x = position
+ * - 'horizontal': top-bottom flip about y = position
+ */
+export type MirrorOrientation = 'vertical' | 'horizontal';
+
+export interface MirrorAxis {
+    orientation: MirrorOrientation;
+    position: number; // mm, board space
+}
+
+export interface MirrorSettings {
+    orientation: MirrorOrientation;
+    position?: number; // mm, the board outline centre when unset
+}
+
+/**
+ * Where double-sided registration holes come from:
+ * - 'outline': pin holes generated on the mirror axis, outside the Edge.Cuts outline
+ * - 'drill': existing drill hits picked by the user
+ */
+export type AlignmentSource = 'outline' | 'drill';
+
+export interface AlignmentSettings {
+    enabled: boolean;
+    source: AlignmentSource;
+    holeDiameter: number; // mm, registration pin size
+    margin: number; // mm from Edge.Cuts to generated hole centres, and of blank around the board
+    fiducialSize: number; // mm, span of the fiducial cross
+    jigClearance: number; // mm added around the jig pocket so the blank drops in
+    picked: { x: number; y: number }[]; // Drill hits used when source is 'drill', board space
+    // Laser parameters for the pin holes and the jig
+    cutSpeed: number;
+    cutPower: number;
+    cutPasses: number;
+    // ...and for the fiducials
+    markSpeed: number;
+    markPower: number;
+}
+
+/**
+ * What holds the board in the stock once it is cut round:
+ * - 'none': nothing, the cut goes all the way round
+ * - 'tabs': short uncut bridges, snapped or sawn through afterwards
+ * - 'mouseBites': bridges perforated with a row of small cut holes so they break cleanly
+ */
+export type TabStyle = 'none' | 'tabs' | 'mouseBites';
+
+export interface CutoutSettings {
+    enabled: boolean;
+    kerf: number; // mm, beam width; the cut runs half of it outside the board edge
+    tabStyle: TabStyle;
+    tabCount: number; // Per outer edge
+    tabWidth: number; // mm of board edge each bridge keeps attached
+    biteDiameter: number; // mm, mouse bite holes
+    biteSpacing: number; // mm between mouse bite centres
+    // Laser parameters of the cut
+    speed: number;
+    power: number;
+    passes: number;
+}
+
+export interface DrillTool {
+    code: string; // e.g. 'T1'
+    diameter: number; // mm
+    plating: DrillPlating;
+    hitCount: number;
+}
+
+export interface DrillHit {
+    tool: string;
+    x: number; // mm, board space (Y down)
+    y: number;
+    // Present for routed / G85 slots
+    endX?: number;
+    endY?: number;
+}
+
+export interface DrillData {
+    plating: DrillPlating;
+    tools: DrillTool[];
+    hits: DrillHit[];
+}
+
+/**
+ * Coordinate format of a Gerber file: units from %MO, zero suppression and digits from %FS
+ */
+export interface GerberFormat {
+    units: 'mm' | 'in';
+    zero: 'L' | 'T'; // Leading or trailing zeros omitted
+    places: [number, number]; // Integer and decimal digits
+}
+
+export interface GerberSource {
+    text: string; // Raw file, kept so the layer can be plotted again with another format
+    detected: GerberFormat; // As read from the headers
+    warnings: string[]; // What detection had to guess; empty when the headers are unambiguous
+    override?: GerberFormat; // Chosen by the user, used instead of detected
+}
+
+/**
+ * Copper of one net or one component, from the Gerber X2 object attributes
+ * (%TO.N for nets, %TO.C for reference designators)
+ */
+export interface LayerFeature {
+    name: string;
+    path: string; // Filled path data in board space, never mirrored
+}
+
+/**
+ * A net exported as its own display with its own laser settings
+ */
+export interface NetSplit {
+    net: string;
+    speed: number;
+    power: number;
+    frequency: number;
+}
+
+/**
+ * Copper features told apart by their X2 aperture function (%TA.AperFunction), or by
+ * object kind in files without one: flashes are pads, draws are traces, regions are pours
+ */
+export type FeatureClass = 'pad' | 'via' | 'trace' | 'pour';
+
+export interface FeatureClassSettings {
+    speed: number;
+    power: number;
+    passes: number;
+}
 
 export interface PCBLayer {
     id: string;
     name: string;
     type: string; // e.g., 'F_Cu', 'B_Cu', 'F_Silk', etc.
-    side: 'front' | 'back' | 'internal' | 'board';
-    content: string; // The raw content or processed path
+    side: LayerSide;
+    content: string; // Source SVG fragment / path data, or the flattened path once processed
     visible: boolean;
     color: string;
     mirrored: boolean;
@@ -15,9 +231,47 @@ export interface PCBLayer {
     frequency: number;
     sourceFormat?: 'gerber' | 'svg';
     bounds?: { x: number; y: number; width: number; height: number };
-    invertPadding: number;
-    outline?: string; // Simplified path for masking/bounds
-    simplifiedContent?: string; // Low-fidelity merged polygons for boolean operations
+    invertPadding?: number; // mm the inversion plate reaches past the board; unset, 0 with a board shape and 2 around bare bounds
+    outline?: string; // Board shape path of outline layers, for masking
+    copperIndex?: number; // 1-based position in the copper stack (L1 = top)
+    polarity?: LayerPolarity; // Image polarity from X2 attributes / job file
+    drill?: DrillData; // Tool table and hits for Excellon layers
+    gerber?: GerberSource; // Source and coordinate format of Gerber layers
+    nets?: LayerFeature[]; // Copper by net, largest first, when the file carries X2 object attributes
+    components?: LayerFeature[]; // Pads by component
+    netSplits?: NetSplit[]; // Nets exported separately from the rest of the layer
+    featureClasses?: Record<FeatureClass, FeatureClassSettings>; // Set when the layer exports one display per feature class
+    featureClassPaths?: Partial<Record<FeatureClass, string>>; // Processed copper of each feature class, split nets left out
+    drillMode?: DrillMode;
+    pilotDiameter?: number; // mm, used when drillMode is 'pilot'
+    copperMode?: CopperMode; // Copper layers only, 'clearance' when unset
+    isolation?: IsolationSettings;
+    hybrid?: HybridClearSettings;
+    processing?: ProcessSettings; // Defaults by layer type when unset
+    maskOpenings?: MaskOpeningSettings; // Mask layers only; set when the layer is exported as its openings
+    silkscreen?: SilkscreenSettings; // Silkscreen layers only; set when the layer goes through the silkscreen stage
+    silkLines?: string; // Processed centre lines of a silkscreen layer in 'line' mode, as open path data
+    smallFeatures?: number; // Silkscreen features under the size threshold, counted by the geometry pipeline
+    clearContent?: string; // Processed far-area fill of a hybrid copper layer, exported as its own display
+    mirroredAbout?: MirrorAxis; // Set by the geometry pipeline once content (and clearContent, silkLines) are mirrored
+}
+
+/**
+ * A run of the board outline that doesn't close up
+ */
+export interface OutlineGap {
+    from: { x: number; y: number }; // Where the run stops
+    to: { x: number; y: number }; // Where it started, which it should have come back to
+    length: number; // mm between the two
+}
+
+/**
+ * Board shape rebuilt from the outline layer's strokes
+ */
+export interface BoardShape {
+    contours: { x: number; y: number }[][]; // Board space; outer edges positive, cut-outs and slots negative
+    path: string; // The contours as path data
+    gaps: OutlineGap[]; // Runs left out of the shape because they don't close
 }
 
 export interface PCBProject {
@@ -27,4 +281,8 @@ export interface PCBProject {
     layers: PCBLayer[];
     width: number;
     height: number;
+    revision?: string;
+    boardThickness?: number; // mm
+    copperLayerCount?: number;
+    board?: BoardShape; // From the Gerber outline layer, when there is one
 }
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { macroPolygons, standardAperturePolygons } from '@/features/parser/utils/apertures';
+import { Polygon, polygonsBounds, signedArea } from '@/features/parser/utils/geometry';
+import { detectGerberFormat } from '@/features/parser/utils/gerberFormat';
+import { readGerber } from '@/features/parser/utils/gerberImage';
+
+// Blocks of a macro as gerber-parser reads them from `%AMM*<primitives>*%`
+const macro = (...primitives: string[]) => {
+    const content = ['%FSLAX46Y46*%', '%MOMM*%', `%AMM*${primitives.join('*')}*%`, 'M02*'].join('\n');
+    return readGerber(content, detectGerberFormat(content).format).macros.M;
+};
+
+// Holes wind the other way, so they count negative
+const area = (polygons: Polygon[]) => polygons.reduce((sum, p) => sum + signedArea(p), 0);
+
+describe('macroPolygons', () => {
+    it('cuts exposure-off primitives out of the shape so far', () => {
+        const shape = macroPolygons(macro('21,1,4,4,0,0,0', '21,0,2,2,0,0,0'), []);
+        expect(area(shape)).toBeCloseTo(12, 3);
+    });
+
+    it('rotates primitives about the macro origin', () => {
+        const { width, height } = polygonsBounds(macroPolygons(macro('21,1,2,2,0,0,45'), []));
+        expect(width).toBeCloseTo(2.83, 2);
+        expect(height).toBeCloseTo(2.83, 2);
+    });
+
+    it('substitutes the tool parameters', () => {
+        const { width, height } = polygonsBounds(macroPolygons(macro('21,1,$1,$2,0,0,0'), [3, 1]));
+        expect(width).toBeCloseTo(3, 3);
+        expect(height).toBeCloseTo(1, 3);
+    });
+
+    it('builds regular polygons (5)', () => {
+        const shape = macroPolygons(macro('5,1,6,0,0,2,0'), []);
+        expect(area(shape)).toBeCloseTo(3 * Math.sqrt(3) / 2, 3);
+        expect(polygonsBounds(shape).width).toBeCloseTo(2, 3);
+    });
+
+    it('builds moirés (6) from their rings and crosshair', () => {
+        const shape = macroPolygons(macro('6,0,0,5,0.5,0.5,2,0.1,6,0'), []);
+        expect(polygonsBounds(shape).width).toBeCloseTo(6, 3);
+        // Two rings (5 / 4 and 3 / 2 mm) plus the crosshair arms outside them
+        const rings = Math.PI * (6.25 - 4) + Math.PI * (2.25 - 1);
+        expect(area(shape)).toBeGreaterThan(rings);
+        expect(area(shape)).toBeLessThan(rings + 2 * 6 * 0.1);
+    });
+
+    it('builds thermals (7) as four quadrants', () => {
+        const shape = macroPolygons(macro('7,0,0,4,2,0.5,0'), []);
+        expect(shape).toHaveLength(4);
+        expect(polygonsBounds(shape).width).toBeCloseTo(Math.sqrt(4 - 0.0625) * 2, 1);
+    });
+
+    it('places lower-left rectangles (22) by their corner', () => {
+        const bounds = polygonsBounds(macroPolygons(macro('22,1,2,1,0,0,0'), []));
+        expect(bounds.x).toBeCloseTo(0, 3);
+        expect(bounds.y).toBeCloseTo(0, 3);
+        expect(bounds.width).toBeCloseTo(2, 3);
+        expect(bounds.height).toBeCloseTo(1, 3);
+    });
+});
+
+describe('standardAperturePolygons', () => {
+    it('builds polygon apertures with their rotation', () => {
+        const square = standardAperturePolygons({ shape: 'poly', params: [2, 4, 45] });
+        expect(area(square)).toBeCloseTo(2, 3);
+        expect(polygonsBounds(square).width).toBeCloseTo(Math.SQRT2, 3);
+    });
+
+    it('cuts round holes', () => {
+        const shape = standardAperturePolygons({ shape: 'circle', params: [2], hole: [1] });
+        expect(area(shape)).toBeCloseTo(Math.PI * 0.75, 1);
+    });
+
+    it('cuts rectangular holes', () => {
+        const shape = standardAperturePolygons({ shape: 'rect', params: [2, 2], hole: [1, 1] });
+        expect(area(shape)).toBeCloseTo(3, 3);
+    });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { signedArea } from '@/features/parser/utils/geometry';
+import { detectGerberFormat } from '@/features/parser/utils/gerberFormat';
+import { readGerber } from '@/features/parser/utils/gerberImage';
+import { reconstructOutline } from '@/features/parser/utils/boardOutline';
+
+type Stroke = [number, number, number, number];
+
+// An Edge.Cuts file drawing the given strokes (mm) with a 0.1 mm pen
+const outlineImage = (strokes: Stroke[]) => {
+    const coord = (x: number, y: number) => `X${Math.round(x * 1e6)}Y${Math.round(y * 1e6)}`;
+    const content = [
+        '%FSLAX46Y46*%', '%MOMM*%', '%TF.FileFunction,Profile,NP*%', '%ADD10C,0.100000*%', 'D10*',
+        ...strokes.flatMap(([x1, y1, x2, y2]) => [`${coord(x1, y1)}D02*`, `${coord(x2, y2)}D01*`]),
+        'M02*'
+    ].join('\n');
+    return readGerber(content, detectGerberFormat(content).format);
+};
+
+describe('reconstructOutline', () => {
+    it('chains strokes in any order and direction into the board shape', () => {
+        const board = reconstructOutline(outlineImage([
+            [20, 10, 0, 10],
+            [0, 0, 20, 0],
+            [0, 0, 0, 10.005], // Rounded a little differently from the stroke it meets
+            [20, 10, 20, 0],
+            // A square cut-out inside
+            [5, 5, 7, 5], [7, 7, 5, 7], [7, 5, 7, 7], [5, 7, 5, 5]
+        ]));
+        expect(board.gaps).toEqual([]);
+        const areas = board.contours.map(signedArea).sort((a, b) => b - a);
+        expect(areas).toHaveLength(2);
+        expect(areas[0]).toBeCloseTo(200, 1);
+        expect(areas[1]).toBeCloseTo(-4, 1);
+    });
+
+    it('reports runs that do not close instead of guessing', () => {
+        const board = reconstructOutline(outlineImage([
+            [0, 0, 20, 0],
+            [20, 0, 20, 10],
+            [20, 10, 0, 10]
+        ]));
+        expect(board.contours).toEqual([]);
+        expect(board.gaps).toHaveLength(1);
+        expect(board.gaps[0].length).toBeCloseTo(10, 3);
+        // The left edge is missing (Y is flipped into board space)
+        const ends = [board.gaps[0].from, board.gaps[0].to].sort((a, b) => a.y - b.y);
+        expect(ends[0].x).toBeCloseTo(0, 6);
+        expect(ends[0].y).toBeCloseTo(-10, 6);
+        expect(ends[1].x).toBeCloseTo(0, 6);
+        expect(ends[1].y).toBeCloseTo(0, 6);
+    });
+
+    it('keeps a full-circle stroke as a round contour', () => {
+        const content = [
+            '%FSLAX46Y46*%', '%MOMM*%', '%ADD10C,0.100000*%', 'D10*', 'G75*',
+            'X5000000Y0D02*', 'G03X5000000Y0I-5000000J0D01*', 'M02*'
+        ].join('\n');
+        const board = reconstructOutline(readGerber(content, detectGerberFormat(content).format));
+        expect(board.contours).toHaveLength(1);
+        expect(signedArea(board.contours[0])).toBeCloseTo(Math.PI * 25, 0);
+    });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { CutoutSettings } from '~types/pcb';
+import { DEFAULT_CUTOUT, buildCutout } from '@/features/cutout/utils/cutout';
+import { Point, polygonsBounds, rectPolygon } from '@/features/parser/utils/geometry';
+import { contentToPolygons, parsePathData } from '@/features/parser/utils/svgParser';
+
+const BOARD = [rectPolygon(10, 10, 20, 20)];
+
+const settings = (updates: Partial<CutoutSettings>): CutoutSettings => ({ ...DEFAULT_CUTOUT, enabled: true, kerf: 0.2, ...updates });
+
+const runs = (path: string) => parsePathData(path, 0.001);
+
+const length = (points: Point[]) =>
+    points.slice(1).reduce((sum, p, i) => sum + Math.hypot(p.x - points[i].x, p.y - points[i].y), 0);
+
+describe('buildCutout', () => {
+    it('cuts half the kerf outside the board edge', () => {
+        const cutout = buildCutout(settings({ tabStyle: 'none' }), BOARD);
+        expect(cutout.tabs).toBe(0);
+        const cuts = runs(cutout.cut);
+        expect(cuts).toHaveLength(1);
+        const bounds = polygonsBounds([cuts[0].points]);
+        expect(bounds.x).toBeCloseTo(-0.1, 3);
+        expect(bounds.width).toBeCloseTo(20.2, 3);
+    });
+
+    it('leaves evenly spaced tabs, each the tab width plus the kerf uncut', () => {
+        const cutout = buildCutout(settings({ tabStyle: 'tabs', tabCount: 4, tabWidth: 1.5 }), BOARD);
+        expect(cutout.tabs).toBe(4);
+        const cuts = runs(cutout.cut);
+        expect(cuts).toHaveLength(4);
+        expect(cuts.every(c => !c.closed)).toBe(true);
+
+        const [whole] = runs(buildCutout(settings({ tabStyle: 'none' }), BOARD).cut);
+        const perimeter = length([...whole.points, whole.points[0]]);
+        const lengths = cuts.map(c => length(c.points));
+        for (const l of lengths) expect(l).toBeCloseTo(lengths[0], 2);
+        expect(lengths.reduce((a, b) => a + b, 0)).toBeCloseTo(perimeter - 4 * 1.7, 1);
+    });
+
+    it('perforates mouse-bite tabs with holes shrunk by the kerf', () => {
+        const cutout = buildCutout(settings({ tabStyle: 'mouseBites', tabCount: 2, tabWidth: 1.5, biteDiameter: 0.5, biteSpacing: 0.8 }), BOARD);
+        const bites = contentToPolygons(cutout.bites);
+        // Two bites fit across each 1.5 mm tab at 0.8 mm spacing
+        expect(bites).toHaveLength(4);
+        for (const bite of bites) expect(polygonsBounds([bite]).width).toBeCloseTo(0.3, 2);
+    });
+
+    it('cuts inner cut-outs and edges too short for their tabs all the way round', () => {
+        const hole = rectPolygon(10, 10, 4, 4).reverse();
+        const cutout = buildCutout(settings({ tabStyle: 'tabs', tabCount: 4 }), [...BOARD, hole]);
+        expect(cutout.tabs).toBe(4);
+        expect(runs(cutout.cut).filter(c => c.closed)).toHaveLength(1);
+
+        const tiny = buildCutout(settings({ tabStyle: 'tabs', tabCount: 4, tabWidth: 1.5 }), [rectPolygon(0, 0, 1, 1)]);
+        expect(tiny.tabs).toBe(0);
+        expect(runs(tiny.cut)).toHaveLength(1);
+    });
+});
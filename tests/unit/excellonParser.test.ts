@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { drillBounds, drillToPath, parseExcellon, splitByPlating } from '@/features/parser/utils/excellonParser';
+import { XCSGenerator } from '@/features/parser/utils/xcsGenerator';
+
+const KICAD_DRILL = [
+    'M48',
+    '; DRILL file {KiCad 8.0.0} date 2024-01-01',
+    '; FORMAT={-:-/ absolute / metric / decimal}',
+    '; #@! TF.FileFunction,Plated,1,2,PTH',
+    'FMAT,2',
+    'METRIC',
+    '; #@! TA.AperFunction,Plated,PTH,ViaDrill',
+    'T1C0.300',
+    '%',
+    'G90',
+    'G05',
+    'T1',
+    'X10.0Y-5.0',
+    'X20.0Y-5.0',
+    'M30'
+].join('\n');
+
+// The display the exporter writes for a drill layer's path
+const exportedDisplay = (path: string) => {
+    const xcs = JSON.parse(new XCSGenerator().generate([{ name: 'Drill', paths: [path], visible: true, color: '#00ff00' }]));
+    return xcs.canvas[0].displays[0];
+};
+
+describe('parseExcellon', () => {
+    it('reads tools, hits and plating from a KiCad file', () => {
+        const file = parseExcellon(KICAD_DRILL, 'board-PTH.drl');
+        expect(file.units).toBe('mm');
+        expect(file.tools).toEqual([{ code: 'T1', diameter: 0.3, plating: 'PTH', hitCount: 2 }]);
+        // Board space has Y pointing down
+        expect(file.hits).toEqual([{ tool: 'T1', x: 10, y: 5 }, { tool: 'T1', x: 20, y: 5 }]);
+    });
+
+    it('splits PTH and NPTH tools into separate drill data', () => {
+        const file = parseExcellon([
+            'M48', 'METRIC',
+            '; #@! TA.AperFunction,Plated,PTH,ComponentDrill', 'T1C0.8',
+            '; #@! TA.AperFunction,NonPlated,NPTH,ComponentDrill', 'T2C3.0',
+            '%', 'T1', 'X1.0Y1.0', 'T2', 'X5.0Y5.0', 'M30'
+        ].join('\n'));
+        const split = splitByPlating(file);
+        expect(split.map(d => [d.plating, d.hits.length])).toEqual([['PTH', 1], ['NPTH', 1]]);
+    });
+
+    it('reads the coordinate format from an Altium header', () => {
+        const file = parseExcellon([
+            'M48', ';Layer_Color=9474304', ';FILE_FORMAT=2:5', 'INCH,TZ', ';TYPE=PLATED', 'T1F00S00C0.03150',
+            '%', 'T01', 'X12500Y-12500', 'M30'
+        ].join('\n'));
+        expect(file.hits[0].x).toBeCloseTo(3.175, 4);
+        expect(file.hits[0].y).toBeCloseTo(3.175, 4);
+        expect(file.tools[0].plating).toBe('PTH');
+    });
+
+    it('accumulates incremental coordinates set in the header', () => {
+        const hits = (mode: string) => parseExcellon(
+            ['M48', 'METRIC', mode, 'T1C1.0', '%', 'T1', 'X1.0Y1.0', 'X2.0Y0.5', 'M30'].join('\n')
+        ).hits.map(h => [h.x, h.y]);
+        expect(hits('ICI,ON')).toEqual([[1, -1], [3, -1.5]]);
+        expect(hits('ICI,OFF')).toEqual([[1, -1], [2, -0.5]]);
+    });
+
+    it('takes plating from whole words of the filename only', () => {
+        const content = ['M48', 'METRIC', 'T1C1.0', '%', 'T1', 'X1.0Y1.0', 'M30'].join('\n');
+        expect(parseExcellon(content, 'board_NPTH.drl').tools[0].plating).toBe('NPTH');
+        expect(parseExcellon(content, 'board-NON_PLATED.drl').tools[0].plating).toBe('NPTH');
+        expect(parseExcellon(content, 'board_PTH.drl').tools[0].plating).toBe('PTH');
+        // 'DEPTH' is not a plating, so the filename's still applies
+        const depth = content.replace('METRIC', 'METRIC\n;TYPE=CONTROLLED_DEPTH');
+        expect(parseExcellon(depth, 'board-NPTH.drl').tools[0].plating).toBe('NPTH');
+    });
+});
+
+describe('drillToPath', () => {
+    it('exports holes at their real position and size', () => {
+        const [drill] = splitByPlating(parseExcellon(KICAD_DRILL));
+        const display = exportedDisplay(drillToPath(drill, 'through'));
+        expect(display.x).toBeCloseTo(9.85, 2);
+        expect(display.y).toBeCloseTo(4.85, 2);
+        expect(display.width).toBeCloseTo(10.3, 2);
+        expect(display.height).toBeCloseTo(0.3, 2);
+    });
+
+    it('matches drillBounds for slots', () => {
+        const drill = {
+            plating: 'NPTH' as const,
+            tools: [{ code: 'T1', diameter: 1, plating: 'NPTH' as const, hitCount: 1 }],
+            hits: [{ tool: 'T1', x: 0, y: 0, endX: 4, endY: 0 }]
+        };
+        const display = exportedDisplay(drillToPath(drill, 'through'));
+        const bounds = drillBounds(drill);
+        // Flattened arcs fall short of the true curve by up to the chord error
+        expect(display.x).toBeCloseTo(bounds.x, 1);
+        expect(display.y).toBeCloseTo(bounds.y, 1);
+        expect(display.width).toBeCloseTo(bounds.width, 1);
+        expect(display.height).toBeCloseTo(bounds.height, 1);
+    });
+
+    it('marks pilot holes no larger than the pilot diameter', () => {
+        const [drill] = splitByPlating(parseExcellon(KICAD_DRILL.replace('T1C0.300', 'T1C1.000')));
+        const display = exportedDisplay(drillToPath(drill, 'pilot', 0.2));
+        expect(display.height).toBeCloseTo(0.2, 1);
+    });
+});
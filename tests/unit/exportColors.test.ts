@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { colorAllocator } from '@/features/parser/utils/exportColors';
+
+describe('colorAllocator', () => {
+    it('never hands out a colour that is taken or already given', () => {
+        const nextColor = colorAllocator(['#F59E0B', '#00ff00']);
+        const colors = Array.from({ length: 40 }, nextColor);
+        expect(new Set(colors).size).toBe(40);
+        expect(colors).not.toContain('#f59e0b');
+        expect(colors).not.toContain('#00ff00');
+        for (const color of colors) expect(color).toMatch(/^#[0-9a-f]{6}$/);
+    });
+});
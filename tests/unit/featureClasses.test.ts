@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { PCBLayer } from '~types/pcb';
+import { colorAllocator } from '@/features/parser/utils/exportColors';
+import { defaultFeatureClasses, featureClassGroups } from '@/features/parser/utils/featureClasses';
+import { detectGerberFormat } from '@/features/parser/utils/gerberFormat';
+import { plotGerber } from '@/features/parser/utils/gerberPlot';
+import { processLayer } from '@/features/parser/utils/layerProcessing';
+
+// A 1 mm SMD pad with a 0.2 mm trace leading off it
+const COPPER = [
+    '%FSLAX46Y46*%',
+    '%MOMM*%',
+    '%TA.AperFunction,SMDPad,CuDef*%',
+    '%ADD10R,1.000000X1.000000*%',
+    '%TD*%',
+    '%TA.AperFunction,Conductor*%',
+    '%ADD11C,0.200000*%',
+    '%TD*%',
+    'D10*',
+    'X0Y0D03*',
+    'D11*',
+    'X0Y0D02*',
+    'X5000000Y0D01*',
+    'M02*'
+].join('\n');
+
+const copperLayer = (): PCBLayer => {
+    const { format } = detectGerberFormat(COPPER);
+    const plotted = plotGerber(COPPER, format);
+    const layer: PCBLayer = {
+        id: 'f-cu', name: 'F.Cu', type: 'F_Cu', side: 'front', content: plotted.content, visible: true, color: '#ff0000',
+        mirrored: false, inverted: false, speed: 300, power: 30, frequency: 60, invertPadding: 2, bounds: plotted.bounds,
+        gerber: { text: COPPER, detected: format, warnings: [] }
+    };
+    return { ...layer, featureClasses: defaultFeatureClasses(layer) };
+};
+
+const MIRROR = { orientation: 'vertical' as const, position: 0 };
+
+describe('feature classes', () => {
+    it('are split out by the geometry pipeline', () => {
+        const processed = processLayer(copperLayer(), copperLayer().bounds!, MIRROR, null, null);
+        expect(Object.keys(processed.featureClassPaths ?? {}).sort()).toEqual(['pad', 'trace']);
+    });
+
+    it('export with a colour each, clear of the layer colour', () => {
+        const processed = processLayer(copperLayer(), copperLayer().bounds!, MIRROR, null, null);
+        const groups = featureClassGroups(processed, colorAllocator([processed.color]))!;
+        expect(groups.map(g => g.name)).toEqual(['(pads)', '(traces)']);
+        const colors = groups.map(g => g.color);
+        expect(new Set(colors).size).toBe(2);
+        expect(colors).not.toContain(processed.color);
+    });
+});
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { polygonsBounds } from '@/features/parser/utils/geometry';
+import { detectGerberFormat } from '@/features/parser/utils/gerberFormat';
+import { readGerber } from '@/features/parser/utils/gerberImage';
+import { renderGerberImage } from '@/features/parser/utils/gerberRenderer';
+
+const gerber = (...lines: string[]) => [...lines, 'M02*'].join('\n');
+
+// Centre of a 0.1 (file unit) round flash at the given coordinates, in mm
+const flashAt = (header: string[], coordinates: string, format = detectGerberFormat(gerber(...header)).format) => {
+    const content = gerber(...header, '%ADD10C,0.1*%', 'D10*', `${coordinates}D03*`);
+    const bounds = polygonsBounds(renderGerberImage(readGerber(content, format)));
+    return { x: bounds.x + bounds.width / 2, y: -(bounds.y + bounds.height / 2) };
+};
+
+describe('detectGerberFormat', () => {
+    it('reads 2.4 inch leading-zero files (Eagle)', () => {
+        const header = ['G04 EAGLE Gerber RS-274X export*', '%FSLAX24Y24*%', '%MOIN*%'];
+        const { format, warnings } = detectGerberFormat(gerber(...header));
+        expect(format).toEqual({ units: 'in', zero: 'L', places: [2, 4] });
+        expect(warnings).toEqual([]);
+        expect(flashAt(header, 'X10000Y5000').x).toBeCloseTo(25.4, 3);
+    });
+
+    it('reads 2.5 inch trailing-zero files (older Altium)', () => {
+        const header = ['%FSTAX25Y25*%', '%MOIN*%'];
+        const { format, warnings } = detectGerberFormat(gerber(...header));
+        expect(format).toEqual({ units: 'in', zero: 'T', places: [2, 5] });
+        expect(warnings).toEqual([]);
+        // Trailing zeros are dropped, so "01" is 01.00000 in and "005" 00.50000 in
+        const at = flashAt(header, 'X01Y005');
+        expect(at.x).toBeCloseTo(25.4, 3);
+        expect(at.y).toBeCloseTo(12.7, 3);
+    });
+
+    it('assumes 4.6 mm and says so when %FS and %MO are missing', () => {
+        const { format, warnings } = detectGerberFormat(gerber('X1000000Y1000000D03*'));
+        expect(format).toEqual({ units: 'mm', zero: 'L', places: [4, 6] });
+        expect(warnings).toEqual(['No %MO unit header; assuming millimetres', 'No %FS format header; assuming 4.6']);
+    });
+
+    it('takes the units from G70 when %MO is missing', () => {
+        const { format, warnings } = detectGerberFormat(gerber('%FSLAX24Y24*%', 'G70*'));
+        expect(format.units).toBe('in');
+        expect(warnings).toEqual([]);
+    });
+
+    it('warns about headers that leave the data ambiguous', () => {
+        const { warnings } = detectGerberFormat(gerber('%FSAX24Y25*%', '%MOIN*%', 'X12345678Y0D03*'));
+        expect(warnings).toEqual([
+            'Zero suppression not given in %FS; assuming leading',
+            'X and Y formats differ (X24 Y25); using X for both',
+            'Coordinates have up to 8 digits but the format holds 6'
+        ]);
+    });
+});
+
+describe('readGerber with an overridden format', () => {
+    it('uses the override instead of the file headers', () => {
+        const header = ['%FSLAX24Y24*%', '%MOIN*%'];
+        expect(flashAt(header, 'X10000Y0').x).toBeCloseTo(25.4, 3);
+        expect(flashAt(header, 'X10000Y0', { units: 'mm', zero: 'L', places: [3, 3] }).x).toBeCloseTo(10, 3);
+    });
+});
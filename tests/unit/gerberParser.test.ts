@@ -0,0 +1,28 @@
+import { describe, expect, it, vi } from 'vitest';
+import { GerberFormat } from '~types/pcb';
+import { parseLayerFiles } from '@/features/parser/utils/gerberParser';
+import { plotGerber } from '@/features/parser/utils/gerberPlot';
+
+const pad = (x: number) => ['%FSLAX46Y46*%', '%MOMM*%', '%ADD10R,1X1*%', 'D10*', `X${x * 1000000}Y0D03*`, 'M02*'].join('\n');
+
+describe('parseLayerFiles', () => {
+    it('plots Gerbers through the given plotter and keeps file order', async () => {
+        const plot = vi.fn(async (content: string, format: GerberFormat, isOutline: boolean) => plotGerber(content, format, isOutline));
+        const project = await parseLayerFiles([
+            new File([pad(1)], 'board-F_Cu.gbr'),
+            new File([pad(2)], 'board-B_Cu.gbr')
+        ], plot);
+
+        expect(plot).toHaveBeenCalledTimes(2);
+        expect(project.layers.map(l => [l.name, l.bounds?.x])).toEqual([['board-F_Cu.gbr', 0.5], ['board-B_Cu.gbr', 1.5]]);
+        expect(project.layers[1].mirrored).toBe(true);
+    });
+
+    it('skips files the plotter fails on', async () => {
+        const plot = vi.fn(async () => { throw new Error('unreadable'); });
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        const project = await parseLayerFiles([new File([pad(1)], 'board-F_Cu.gbr')], plot);
+        expect(project.layers).toEqual([]);
+        warn.mockRestore();
+    });
+});
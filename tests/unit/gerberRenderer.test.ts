@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { polygonsBounds, signedArea } from '@/features/parser/utils/geometry';
+import { detectGerberFormat } from '@/features/parser/utils/gerberFormat';
+import { readGerber } from '@/features/parser/utils/gerberImage';
+import { renderGerberImage } from '@/features/parser/utils/gerberRenderer';
+
+// A 10 mm horizontal draw with the given aperture definition
+const drawWith = (aperture: string) => {
+    const content = [
+        '%FSLAX46Y46*%', '%MOMM*%',
+        '%AMSQUARE*21,1,$1,$1,0,0,0*%',
+        `%ADD10${aperture}*%`,
+        'D10*', 'X0Y0D02*', 'X10000000Y0D01*', 'M02*'
+    ].join('\n');
+    return polygonsBounds(renderGerberImage(readGerber(content, detectGerberFormat(content).format)));
+};
+
+const render = (lines: string[]) => {
+    const content = ['%FSLAX46Y46*%', '%MOMM*%', ...lines, 'M02*'].join('\n');
+    return renderGerberImage(readGerber(content, detectGerberFormat(content).format));
+};
+
+describe('renderGerberImage draws', () => {
+    it('stroke circles at their diameter', () => {
+        expect(drawWith('C,0.300000').height).toBeCloseTo(0.3, 2);
+    });
+
+    it('stroke obrounds at their short side', () => {
+        expect(drawWith('O,1.000000X0.400000').height).toBeCloseTo(0.4, 2);
+    });
+
+    it('stroke polygons at their outer diameter', () => {
+        expect(drawWith('P,0.600000X6').height).toBeCloseTo(0.6, 2);
+    });
+
+    it('stroke macros at their smaller extent', () => {
+        expect(drawWith('SQUARE,0.500000').height).toBeCloseTo(0.5, 2);
+    });
+});
+
+describe('renderGerberImage regions', () => {
+    it('fill a contour made of one full-circle arc', () => {
+        const polygons = render(['G75*', 'G36*', 'X5000000Y0D02*', 'G03X5000000Y0I-5000000J0D01*', 'G37*']);
+        expect(polygons).toHaveLength(1);
+        expect(signedArea(polygons[0])).toBeCloseTo(Math.PI * 25, 0);
+    });
+
+    it('skip a contour of a single line', () => {
+        expect(render(['G36*', 'X0Y0D02*', 'G01X5000000Y0D01*', 'G37*'])).toEqual([]);
+    });
+});
+
+describe('renderGerberImage image structure', () => {
+    const area = (lines: string[]) => render(lines).reduce((sum, p) => sum + signedArea(p), 0);
+
+    it('clears only the dark objects drawn before a %LPC', () => {
+        const total = area([
+            '%ADD10R,4X4*%', '%ADD11R,2X2*%', '%ADD12R,1X1*%',
+            'D10*', 'X0Y0D03*',
+            '%LPC*%', 'D11*', 'X0Y0D03*',
+            '%LPD*%', 'D12*', 'X0Y0D03*'
+        ]);
+        expect(total).toBeCloseTo(16 - 4 + 1, 3);
+    });
+
+    it('repeats a step-and-repeat block at each step', () => {
+        const polygons = render(['%ADD10R,1X1*%', '%SRX3Y1I2J0*%', 'D10*', 'X0Y0D03*', '%SR*%']);
+        expect(polygons).toHaveLength(3);
+        const bounds = polygonsBounds(polygons);
+        expect(bounds.x).toBeCloseTo(-0.5, 3);
+        expect(bounds.width).toBeCloseTo(5, 3);
+        expect(bounds.height).toBeCloseTo(1, 3);
+    });
+});
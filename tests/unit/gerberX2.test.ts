@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from 'vitest';
+import { detectFromFileAttributes, parseFileFunction, parseGerberJob } from '@/features/parser/utils/gerberX2';
+
+describe('parseFileFunction', () => {
+    it('maps copper layers by position', () => {
+        expect(parseFileFunction('Copper,L1,Top')).toEqual({ type: 'F.Cu', side: 'front', copperIndex: 1 });
+        expect(parseFileFunction('Copper,L4,Bot')).toEqual({ type: 'B.Cu', side: 'back', copperIndex: 4 });
+        expect(parseFileFunction('Copper,L2,Inr')).toEqual({ type: 'In1.Cu', side: 'internal', copperIndex: 2 });
+    });
+
+    it('maps the other layer functions', () => {
+        expect(parseFileFunction('Soldermask,Bot')).toEqual({ type: 'B.Mask', side: 'back' });
+        expect(parseFileFunction('Legend,Top')).toEqual({ type: 'F.SilkS', side: 'front' });
+        expect(parseFileFunction('Profile,NP')).toEqual({ type: 'Edge.Cuts', side: 'board' });
+        expect(parseFileFunction('Plated,1,2,PTH')).toEqual({ type: 'Drill', side: 'board' });
+        expect(parseFileFunction('Other,Comment')).toEqual({ type: 'User.Comment', side: 'internal' });
+    });
+
+    it('leaves unknown functions to the filename heuristics', () => {
+        expect(parseFileFunction('Vcut')).toBeNull();
+    });
+});
+
+describe('detectFromFileAttributes', () => {
+    it('reads function and polarity from the X2 header', () => {
+        const header = '%TF.GenerationSoftware,KiCad,Pcbnew,8.0.0*%\n%TF.FileFunction,Soldermask,Top*%\n%TF.FilePolarity,Negative*%\n%FSLAX46Y46*%';
+        expect(detectFromFileAttributes(header)).toEqual({ type: 'F.Mask', side: 'front', polarity: 'negative' });
+    });
+
+    it('is null for X1 files', () => {
+        expect(detectFromFileAttributes('%FSLAX46Y46*%\n%MOMM*%')).toBeNull();
+    });
+});
+
+describe('parseGerberJob', () => {
+    const job = JSON.stringify({
+        Header: { GenerationSoftware: { Vendor: 'KiCad', Application: 'Pcbnew' } },
+        GeneralSpecs: {
+            ProjectId: { Name: 'feather', GUID: '1234', Revision: 'B' },
+            Size: { X: 50.8, Y: 22.86 },
+            LayerNumber: 4,
+            BoardThickness: 1.6
+        },
+        FilesAttributes: [
+            { Path: 'gerbers/feather-F_Cu.gbr', FileFunction: 'Copper,L1,Top', FilePolarity: 'Positive' },
+            { Path: 'feather-In1_Cu.gbr', FileFunction: 'Copper,L2,Inr', FilePolarity: 'Positive' },
+            { Path: 'feather-F_Mask.gbr', FileFunction: 'SolderMask,Top', FilePolarity: 'Negative' },
+            { Path: 'feather-V_Cut.gbr', FileFunction: 'Vcut' }
+        ]
+    });
+
+    it('reads the board specs', () => {
+        const parsed = parseGerberJob(job)!;
+        expect(parsed.projectName).toBe('feather');
+        expect(parsed.revision).toBe('B');
+        expect(parsed.width).toBeCloseTo(50.8, 6);
+        expect(parsed.height).toBeCloseTo(22.86, 6);
+        expect(parsed.boardThickness).toBeCloseTo(1.6, 6);
+        expect(parsed.copperLayerCount).toBe(4);
+    });
+
+    it('keys the known files by lower-cased basename', () => {
+        const { files } = parseGerberJob(job)!;
+        expect([...files.keys()]).toEqual(['feather-f_cu.gbr', 'feather-in1_cu.gbr', 'feather-f_mask.gbr']);
+        expect(files.get('feather-f_mask.gbr')).toEqual({ type: 'F.Mask', side: 'front', polarity: 'negative' });
+    });
+
+    it('is null for a file that is not JSON', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        expect(parseGerberJob('%FSLAX46Y46*%')).toBeNull();
+        expect(warn).toHaveBeenCalled();
+        warn.mockRestore();
+    });
+});
@@ -0,0 +1,119 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { DOMParser } from '@xmldom/xmldom';
+import { parseIPC2581 } from '@/features/parser/utils/ipcParser';
+import { processingFor } from '@/features/parser/utils/laserProcess';
+
+const IPC_2581 = `<?xml version="1.0" encoding="UTF-8"?>
+<IPC-2581 revision="B">
+  <Content>
+    <LayerRef name="TOP"/>
+    <LayerRef name="BOTTOM"/>
+    <LayerRef name="DRILL_1-2"/>
+    <DictionaryStandard units="MILLIMETER">
+      <EntryStandard id="PAD_1"><RectCenter width="1.0" height="2.0"/></EntryStandard>
+      <EntryStandard id="SLOT_1"><Oval width="3.0" height="1.0"/></EntryStandard>
+    </DictionaryStandard>
+  </Content>
+  <Ecad name="test-board">
+    <CadHeader units="MILLIMETER"/>
+    <CadData>
+      <Layer name="TOP" layerFunction="CONDUCTOR" side="TOP" polarity="POSITIVE"/>
+      <Layer name="BOTTOM" layerFunction="CONDUCTOR" side="BOTTOM" polarity="POSITIVE"/>
+      <Layer name="DRILL_1-2" layerFunction="DRILL" side="ALL" polarity="POSITIVE"/>
+      <Step name="board">
+        <Profile>
+          <Polygon>
+            <PolyBegin x="0" y="0"/>
+            <PolyStepSegment x="30" y="0"/>
+            <PolyStepSegment x="30" y="20"/>
+            <PolyStepSegment x="0" y="20"/>
+            <PolyStepSegment x="0" y="0"/>
+          </Polygon>
+        </Profile>
+        <LayerFeature layerRef="TOP">
+          <Set>
+            <Pad><Location x="5" y="5"/><StandardPrimitiveRef id="PAD_1"/></Pad>
+          </Set>
+        </LayerFeature>
+        <LayerFeature layerRef="BOTTOM">
+          <Set>
+            <Pad><Location x="25" y="5"/><StandardPrimitiveRef id="PAD_1"/></Pad>
+          </Set>
+        </LayerFeature>
+        <LayerFeature layerRef="DRILL_1-2">
+          <Set>
+            <Hole name="H1" diameter="0.3" platingStatus="VIA" x="10" y="5"/>
+            <Hole name="H2" diameter="0.3" platingStatus="PLATED" x="20" y="5"/>
+            <Hole name="H3" diameter="3.2" platingStatus="NONPLATED" x="25" y="15"/>
+            <SlotCavity name="S1" platingStatus="PLATED"><Location x="15" y="10"/><StandardPrimitiveRef id="SLOT_1"/></SlotCavity>
+          </Set>
+        </LayerFeature>
+      </Step>
+    </CadData>
+  </Ecad>
+</IPC-2581>`;
+
+const parse = () => parseIPC2581(new File([IPC_2581], 'test-board.xml'));
+
+describe('parseIPC2581', () => {
+    beforeAll(() => {
+        // The importer runs on the main thread, where the browser provides DOMParser
+        (globalThis as any).DOMParser = DOMParser;
+    });
+
+    it('reads feature geometry into board space', async () => {
+        const project = await parse();
+        const top = project.layers.find(l => l.name === 'TOP')!;
+        expect(top.side).toBe('front');
+        expect(top.copperIndex).toBe(1);
+        expect(top.bounds!.x).toBeCloseTo(4.5, 3);
+        expect(top.bounds!.y).toBeCloseTo(-6, 3);
+        expect(top.bounds!.width).toBeCloseTo(1, 3);
+        expect(top.bounds!.height).toBeCloseTo(2, 3);
+    });
+
+    it('mirrors bottom layers only', async () => {
+        const project = await parse();
+        const bottom = project.layers.find(l => l.name === 'BOTTOM')!;
+        expect(bottom.side).toBe('back');
+        expect(bottom.copperIndex).toBe(2);
+        expect(bottom.mirrored).toBe(true);
+        expect(project.layers.find(l => l.name === 'TOP')!.mirrored).toBe(false);
+    });
+
+    it('takes the board shape from the step profile', async () => {
+        const project = await parse();
+        expect(project.width).toBeCloseTo(30, 3);
+        expect(project.height).toBeCloseTo(20, 3);
+        expect(project.board?.contours).toHaveLength(1);
+        expect(project.layers.some(l => l.type === 'Edge.Cuts')).toBe(true);
+    });
+
+    it('keeps drill layers as drill data, split by plating', async () => {
+        const project = await parse();
+        const drills = project.layers.filter(l => l.type === 'Drill');
+        expect(drills.map(l => [l.name, l.drill?.plating])).toEqual([
+            ['DRILL_1-2 (PTH)', 'PTH'],
+            ['DRILL_1-2 (NPTH)', 'NPTH']
+        ]);
+
+        const pth = drills[0].drill!;
+        expect(pth.tools.map(t => t.hitCount)).toEqual([2, 1]);
+        expect(pth.tools[0].diameter).toBeCloseTo(0.3, 3);
+        expect(pth.tools[1].diameter).toBeCloseTo(1, 1);
+        expect(pth.hits[0]).toEqual({ tool: 'T1', x: 10, y: -5 });
+
+        // The 3 x 1 oval is a slot of width 1 between centres 2 apart
+        const slot = pth.hits.find(h => h.endX !== undefined)!;
+        expect(Math.hypot(slot.endX! - slot.x, slot.endY! - slot.y)).toBeCloseTo(2, 1);
+        expect((slot.x + slot.endX!) / 2).toBeCloseTo(15, 3);
+        expect((slot.y + slot.endY!) / 2).toBeCloseTo(-10, 3);
+    });
+
+    it('does not treat drill layers as the board outline', async () => {
+        const project = await parse();
+        for (const drill of project.layers.filter(l => l.type === 'Drill')) {
+            expect(processingFor(drill).process).toBe('fill');
+        }
+    });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { PCBLayer } from '~types/pcb';
+import { polygonsBounds, polygonsToPath, rectPolygon } from '@/features/parser/utils/geometry';
+import { DEFAULT_ISOLATION, isolationContours, isolationWidth } from '@/features/parser/utils/isolation';
+import { processLayer } from '@/features/parser/utils/layerProcessing';
+import { contentToPolygons } from '@/features/parser/utils/svgParser';
+
+const copperLayer = (content: string, updates: Partial<PCBLayer> = {}): PCBLayer => ({
+    id: 'f-cu', name: 'F.Cu', type: 'F_Cu', side: 'front', content, visible: true, color: '#ff0000',
+    mirrored: false, inverted: false, speed: 300, power: 30, frequency: 60, ...updates
+});
+
+const MIRROR = { orientation: 'vertical' as const, position: 0 };
+const BOARD = [rectPolygon(10, 10, 20, 20)];
+const BOARD_BOUNDS = { x: 0, y: 0, width: 20, height: 20 };
+
+describe('isolationContours', () => {
+    it('traces one outline per pass, stepping out by the tool width less the overlap', () => {
+        const settings = { toolWidth: 0.1, passes: 3, overlap: 0.5 };
+        const contours = isolationContours([rectPolygon(0, 0, 2, 2)], settings);
+        expect(contours).toHaveLength(3);
+        const widths = contours.map(c => polygonsBounds([c]).width);
+        expect(widths[0]).toBeCloseTo(2.1, 3);
+        expect(widths[1]).toBeCloseTo(2.2, 3);
+        expect(widths[2]).toBeCloseTo(2.3, 3);
+        expect(isolationWidth(settings)).toBeCloseTo(0.2, 6);
+    });
+
+    it('is empty without copper', () => {
+        expect(isolationContours([], DEFAULT_ISOLATION)).toEqual([]);
+    });
+});
+
+describe('processLayer on copper', () => {
+    it('keeps isolation tool paths on the board', () => {
+        // A pad hard against the board's left edge
+        const isolation = { toolWidth: 0.2, passes: 3, overlap: 0 };
+        const layer = copperLayer(polygonsToPath([rectPolygon(0.5, 10, 1, 1)]), { copperMode: 'isolation', isolation });
+        const processed = processLayer(layer, BOARD_BOUNDS, MIRROR, BOARD, null);
+        expect(processed.bounds?.x).toBeCloseTo(0, 3);
+
+        // One tool path per pass, each cut open at the edge rather than closed along it
+        const subpaths = processed.content.split('M').slice(1);
+        expect(subpaths).toHaveLength(isolation.passes);
+        expect(subpaths.every(sp => !sp.includes('Z'))).toBe(true);
+    });
+
+    it('keeps isolation rings wholly on the board closed', () => {
+        const layer = copperLayer(polygonsToPath([rectPolygon(10, 10, 2, 2)]), { copperMode: 'isolation' });
+        const processed = processLayer(layer, BOARD_BOUNDS, MIRROR, BOARD, null);
+        const subpaths = processed.content.split('M').slice(1);
+        expect(subpaths).toHaveLength(DEFAULT_ISOLATION.passes);
+        expect(subpaths.every(sp => sp.includes('Z'))).toBe(true);
+    });
+
+    it('inverts within the board edge unless padding is asked for', () => {
+        const layer = copperLayer(polygonsToPath([rectPolygon(10, 10, 2, 2)]), { inverted: true });
+        const flush = processLayer(layer, BOARD_BOUNDS, MIRROR, BOARD, null);
+        expect(polygonsBounds(contentToPolygons(flush.content)).width).toBeCloseTo(20, 3);
+
+        const padded = processLayer({ ...layer, invertPadding: 1 }, BOARD_BOUNDS, MIRROR, BOARD, null);
+        expect(polygonsBounds(contentToPolygons(padded.content)).width).toBeCloseTo(22, 3);
+    });
+
+    it('leaves 2 mm around the bounds when the board shape is unknown', () => {
+        const layer = copperLayer(polygonsToPath([rectPolygon(10, 10, 2, 2)]), { inverted: true });
+        const processed = processLayer(layer, BOARD_BOUNDS, MIRROR, null, null);
+        expect(polygonsBounds(contentToPolygons(processed.content)).width).toBeCloseTo(24, 3);
+    });
+});
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_PROCESSING, MIN_LINE_SPACING, processingFields } from '@/features/parser/utils/laserProcess';
+
+describe('processingFields', () => {
+    it('converts the line spacing to LPI', () => {
+        expect(processingFields(DEFAULT_PROCESSING).lpi).toBe(300);
+    });
+
+    it('caps the LPI at the closest line spacing', () => {
+        const lpi = Math.round(25.4 / MIN_LINE_SPACING);
+        expect(processingFields({ ...DEFAULT_PROCESSING, lineSpacing: 0 }).lpi).toBe(lpi);
+        expect(processingFields({ ...DEFAULT_PROCESSING, lineSpacing: -1 }).lpi).toBe(lpi);
+    });
+});
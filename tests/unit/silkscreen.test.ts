@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { PCBLayer } from '~types/pcb';
+import { polygonsBounds, polygonsToPath, rectPolygon } from '@/features/parser/utils/geometry';
+import { DEFAULT_SILKSCREEN, silkscreenGeometry } from '@/features/parser/utils/silkscreen';
+import { processLayer } from '@/features/parser/utils/layerProcessing';
+import { contentToPolygons } from '@/features/parser/utils/svgParser';
+
+const silkLayer = (content: string): PCBLayer => ({
+    id: 'f-silk', name: 'F.Silkscreen', type: 'F_SilkS', side: 'front', content, visible: true, color: '#ffffff',
+    mirrored: false, inverted: false, speed: 1000, power: 20, frequency: 60, invertPadding: 0,
+    silkscreen: { ...DEFAULT_SILKSCREEN, minFeatureSize: 0 }
+});
+
+const MIRROR = { orientation: 'vertical' as const, position: 0 };
+const BOUNDS = { x: 0, y: 0, width: 20, height: 20 };
+
+describe('silkscreenGeometry', () => {
+    it('grows hairlines of sources without strokes to the minimum width', () => {
+        const hairline = [rectPolygon(5, 5, 8, 0.05)];
+        const silk = silkscreenGeometry(silkLayer(''), hairline, DEFAULT_SILKSCREEN, null, null);
+        expect(polygonsBounds(silk.fill).height).toBeCloseTo(0.15, 2);
+    });
+
+    it('leaves wide enough artwork as drawn', () => {
+        const block = [rectPolygon(5, 5, 8, 2)];
+        const silk = silkscreenGeometry(silkLayer(''), block, DEFAULT_SILKSCREEN, null, null);
+        expect(polygonsBounds(silk.fill).height).toBeCloseTo(2, 3);
+    });
+});
+
+describe('silkscreen kept off the mask', () => {
+    it('clears the openings as far as they are expanded', () => {
+        const layer = silkLayer(polygonsToPath([rectPolygon(10, 10, 10, 1)]));
+        const pad = polygonsToPath([rectPolygon(10, 10, 2, 2)]);
+        const processed = processLayer(layer, BOUNDS, MIRROR, null, { content: pad, expansion: 0.5 });
+        // The bar loses the 3 mm across the expanded opening in the middle
+        const halves = contentToPolygons(processed.content).map(c => polygonsBounds([c]));
+        expect(halves).toHaveLength(2);
+        for (const half of halves) expect(half.width).toBeCloseTo(3.5, 2);
+    });
+});
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { polygonsBounds, signedArea } from '@/features/parser/utils/geometry';
+import { contentToPolygons, parseLength, parsePathData, parseSvgLayer } from '@/features/parser/utils/svgParser';
+
+const svg = (body: string, attributes = 'width="50mm" height="40mm" viewBox="0 0 50 40"') =>
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" ${attributes}>${body}</svg>`;
+
+describe('parseLength', () => {
+    it('converts absolute units to mm', () => {
+        expect(parseLength('10mm')).toBeCloseTo(10, 6);
+        expect(parseLength('1in')).toBeCloseTo(25.4, 6);
+        expect(parseLength('96px')).toBeCloseTo(25.4, 6);
+        expect(parseLength('50%')).toBeNull();
+    });
+});
+
+describe('parsePathData', () => {
+    it('reads relative commands and closes subpaths', () => {
+        const [square] = parsePathData('m 1 1 h 2 v 2 h -2 z', 0.01);
+        expect(square.closed).toBe(true);
+        expect(polygonsBounds([square.points])).toEqual({ x: 1, y: 1, width: 2, height: 2 });
+    });
+
+    it('flattens arcs within the tolerance', () => {
+        const [circle] = parsePathData('M 0 0 A 5 5 0 1 1 10 0 A 5 5 0 1 1 0 0 Z', 0.005);
+        // Chords fall inside the arc by up to the tolerance
+        expect(Math.abs(signedArea(circle.points))).toBeCloseTo(Math.PI * 25, 0);
+    });
+});
+
+describe('parseSvgLayer', () => {
+    it('maps user units to mm through the viewBox', () => {
+        const polygons = parseSvgLayer(svg('<rect x="10" y="5" width="20" height="10"/>', 'width="100mm" height="80mm" viewBox="0 0 50 40"'));
+        expect(polygonsBounds(polygons)).toEqual({ x: 20, y: 10, width: 40, height: 20 });
+    });
+
+    it('follows transforms and <use> references', () => {
+        const polygons = parseSvgLayer(svg(
+            '<defs><rect id="pad" width="2" height="2"/></defs>' +
+            '<g transform="translate(10 10)"><use xlink:href="#pad" x="5"/></g>'
+        ));
+        expect(polygonsBounds(polygons)).toEqual({ x: 15, y: 10, width: 2, height: 2 });
+    });
+
+    it('turns strokes into filled outlines at their width', () => {
+        const polygons = parseSvgLayer(svg('<line x1="0" y1="5" x2="10" y2="5" stroke="black" stroke-width="1" stroke-linecap="butt"/>'));
+        const bounds = polygonsBounds(polygons);
+        expect(bounds.width).toBeCloseTo(10, 3);
+        expect(bounds.height).toBeCloseTo(1, 3);
+    });
+
+    it('skips unfilled shapes', () => {
+        expect(parseSvgLayer(svg('<rect width="5" height="5" fill="none"/>'))).toEqual([]);
+    });
+
+    it('rejects documents that are not SVG', () => {
+        expect(() => parseSvgLayer('<html></html>')).toThrow();
+    });
+});
+
+describe('contentToPolygons', () => {
+    it('fills path data even-odd', () => {
+        const polygons = contentToPolygons('M0 0 H10 V10 H0 Z M2 2 H8 V8 H2 Z');
+        const area = polygons.reduce((sum, p) => sum + signedArea(p), 0);
+        expect(area).toBeCloseTo(64, 3);
+    });
+});
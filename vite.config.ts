@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react-swc'
 import { nodePolyfills } from 'vite-plugin-node-polyfills'
@@ -30,5 +31,9 @@ export default defineConfig({
     server: {
         host: true,
         port: 5173,
+    },
+    test: {
+        include: ['tests/unit/**/*.test.ts'],
+        environment: 'node',
     }
 })